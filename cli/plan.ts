@@ -0,0 +1,161 @@
+import ExcelJS from 'exceljs';
+import fs from 'fs';
+import Papa from 'papaparse';
+import path from 'path';
+import { parseArgs } from 'util';
+import YAML from 'yaml';
+import { ActualDataItem, Holiday, ProjectData, SourceTable } from '../src/types/production';
+import { mergeActuals } from '../src/utils/actualsMerge';
+import { applyColumnMapping, guessColumnMapping, hasMappableColumns } from '../src/utils/columnMapping';
+import { generateExcelFile, getPlanFileName } from '../src/utils/excelGenerator';
+import { formatFormulaIssues, validateProjectFormulas } from '../src/utils/formulaValidator';
+import { formatImportIssues } from '../src/utils/importNormalization';
+import { readGeneratedPlan } from '../src/utils/planImport';
+import { describeChanges, diffProjects } from '../src/utils/planPatches';
+import { parseProjectData } from '../src/utils/projectSchema';
+import { parseHolidayRows } from '../src/utils/workingCalendar';
+
+// Headless entry point for scheduled jobs: the same checks and workbook as the chat, from files on disk.
+// generate and validate exit 1 on an invalid definition; diff exits 1 when the definitions differ, like diff(1).
+// Bad usage, unreadable files and, for diff, invalid definitions exit 2.
+
+const USAGE = `Usage: npm run plan -- <command> [options]
+
+Commands:
+  generate <project> [--actuals <csv>] [--out <xlsx>]  Write the workbook (default name from the project, in the current directory)
+  validate <project> [--actuals <csv>]                 Check the definition, its formulas and the actuals file
+  diff <before> <after>                                List the changes between two definitions
+
+<project> is a ProjectData definition in .json, .yaml or .yml, or a workbook generated by this app (.xlsx).`;
+
+class UsageError extends Error {}
+
+const readDefinition = async (file: string): Promise<unknown> => {
+    if (!fs.existsSync(file)) throw new UsageError(`No such file: ${file}`);
+    const extension = path.extname(file).toLowerCase();
+    if (extension === '.xlsx') {
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.readFile(file);
+        const imported = readGeneratedPlan(workbook);
+        if (!imported) throw new UsageError(`${file} was not generated by this app, so it has no project definition to read.`);
+        return imported.project;
+    }
+    const text = fs.readFileSync(file, 'utf8');
+    try {
+        return extension === '.json' ? JSON.parse(text) : YAML.parse(text);
+    } catch (error) {
+        throw new UsageError(`Could not parse ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+/**
+ * Reads and checks a definition. Problems are printed; the result is null when there are any.
+ */
+const loadProject = async (file: string): Promise<ProjectData | null> => {
+    const parsed = parseProjectData(await readDefinition(file));
+    if (parsed.errors) {
+        console.error(`${file}: invalid definition`);
+        parsed.errors.forEach(error => console.error(`  - ${error}`));
+        return null;
+    }
+    const { errors, warnings } = validateProjectFormulas(parsed.project);
+    formatFormulaIssues(warnings).forEach(warning => console.error(`${file}: warning: ${warning}`));
+    if (errors.length > 0) {
+        console.error(`${file}: formulas that would break in Excel`);
+        formatFormulaIssues(errors).forEach(error => console.error(`  - ${error}`));
+        return null;
+    }
+    return parsed.project;
+};
+
+/**
+ * Actuals and holidays from a CSV, with columns matched the way the upload dialog guesses them.
+ */
+const readActualsCsv = (file: string, project: ProjectData): { rows: ActualDataItem[]; holidays: Holiday[] } => {
+    if (!fs.existsSync(file)) throw new UsageError(`No such file: ${file}`);
+    const results = Papa.parse<Record<string, unknown>>(fs.readFileSync(file, 'utf8'), { header: true, skipEmptyLines: true });
+    const table: SourceTable = { headers: results.meta.fields || [], rows: results.data, fileName: path.basename(file) };
+    const holidays = parseHolidayRows(table.rows);
+    const mapping = guessColumnMapping(table, project.dailyColumns);
+    if (!hasMappableColumns(mapping)) {
+        if (holidays.length > 0) return { rows: [], holidays };
+        throw new UsageError(`${file}: found no date, resource and actual columns (headers: ${table.headers.join(', ')}).`);
+    }
+    const { rows, issues } = applyColumnMapping(table, mapping);
+    formatImportIssues(issues).forEach(issue => console.error(`${file}: warning: ${issue}`));
+    return { rows, holidays };
+};
+
+// Later rows win on the same date and resource, as with uploads in the chat
+const addActuals = (project: ProjectData, actuals: { rows: ActualDataItem[]; holidays: Holiday[] }): ProjectData => {
+    const rows = mergeActuals([project.actualData || [], actuals.rows]).rows;
+    const holidays = [...(project.calendar?.holidays || [])];
+    actuals.holidays.forEach(h => {
+        if (!holidays.some(existing => existing.date === h.date)) holidays.push(h);
+    });
+    return {
+        ...project,
+        actualData: rows.length > 0 ? rows : undefined,
+        ...(holidays.length > 0 ? { calendar: { ...project.calendar, holidays } } : {}),
+    };
+};
+
+const generate = async (file: string, actualsFile?: string, out?: string): Promise<number> => {
+    const loaded = await loadProject(file);
+    if (!loaded) return 1;
+    const project = actualsFile ? addActuals(loaded, readActualsCsv(actualsFile, loaded)) : loaded;
+    const target = out || getPlanFileName(project);
+    const buffer = await generateExcelFile(project);
+    fs.writeFileSync(target, Buffer.from(buffer as ArrayBuffer));
+    console.log(`Wrote ${target} (${project.actualData?.length ?? 0} actual rows)`);
+    return 0;
+};
+
+const validate = async (file: string, actualsFile?: string): Promise<number> => {
+    const project = await loadProject(file);
+    if (!project) return 1;
+    const actuals = actualsFile ? readActualsCsv(actualsFile, project) : null;
+    console.log(`${file}: ${project.name} is valid (${project.startDate} to ${project.endDate}, ${project.goal} ${project.unit})`
+        + `${actuals ? `; ${actuals.rows.length} actual rows and ${actuals.holidays.length} holiday(s) in ${actualsFile}` : ''}`);
+    return 0;
+};
+
+const diff = async (beforeFile: string, afterFile: string): Promise<number> => {
+    const [before, after] = [await loadProject(beforeFile), await loadProject(afterFile)];
+    if (!before || !after) return 2;
+    const lines = describeChanges(diffProjects(before, after));
+    if (lines.length === 0) {
+        console.log('No differences');
+        return 0;
+    }
+    lines.forEach(line => console.log(line));
+    return 1;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+    const { positionals, values } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            actuals: { type: 'string', short: 'a' },
+            out: { type: 'string', short: 'o' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command, ...files] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return values.help ? 0 : 2;
+    }
+    if (command === 'generate' && files.length === 1) return generate(files[0], values.actuals, values.out);
+    if (command === 'validate' && files.length === 1) return validate(files[0], values.actuals);
+    if (command === 'diff' && files.length === 2) return diff(files[0], files[1]);
+    throw new UsageError(USAGE);
+};
+
+main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS') ? 2 : 1);
+    });
@@ -0,0 +1,441 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+
+export const AGENT_MODEL = 'gemini-2.5-flash';
+
+export const buildSystemInstruction = (today: string) => `You are a professional Production Planning Assistant.
+    Your goal is to collect the following information from the user to generate an Excel production plan:
+    1. Project Name
+    2. Overall Goal (numeric value)
+    3. Unit of measurement (e.g., units, hours, revenue)
+    4. Start Date (YYYY-MM-DD)
+    5. End Date (YYYY-MM-DD)
+    6. List of Resources/Teams, with each one's capacity (units per day or headcount), efficiency and optional start/end dates if they differ
+
+    CURRENT DATE CONTEXT: Today's date is ${today}. If the user uses relative dates like "today", "tomorrow", "yesterday", "next Monday", or "in 2 weeks", you MUST calculate and use the exact YYYY-MM-DD based on this current date.
+
+    The user may also provide 'actual' production data points (Date, Name, Actual value) directly in the chat or via file upload.
+    If they provide it in text, extract it into the 'actualData' parameter.
+
+    DYNAMIC SCHEMA ANALYSIS:
+    Based on the project type and unit, you must suggest a set of columns for the production plan. 
+
+    1. DAILY KEY COLUMNS: Define raw data tracked per resource per day. 
+       - ALWAYS include 'Target' and 'Actual'.
+       - Add others like 'Duration', 'Ops', or 'Variance'.
+       - You can provide formulas for calculated fields (e.g., Variance: G{rowIndex}-F{rowIndex}).
+    2. PLAN COLUMNS: Define daily summaries in the main plan (e.g., 'Total Target', 'Actual Ops').
+    3. PIVOT COLUMNS: Define weekly/monthly aggregations (e.g., 'Total Actual', 'Avg Variance').
+    4. DASHBOARD METRICS: Define high-level KPIs (e.g., 'Overall Goal', '% Completion'). Each one becomes a KPI tile on the 'Dashboard' sheet; give it a format (number, percent, currency, days or an Excel number format). If you omit them, goal-vs-actual, % completion and days-remaining tiles are added automatically.
+
+    TARGET DISTRIBUTION:
+    Ask how output should ramp over the project and offer these strategies:
+    - flat: the same target every day
+    - linear: steady ramp from a start weight to an end weight
+    - lpb: 30%→60%→100% learning ramp (default)
+    - s-curve: slow start, peak mid-project, taper at the end
+    - front-loaded: highest output early, easing off
+    - custom: relative weights per project week
+    Confirm the chosen strategy and pass it as 'distribution'. Targets are shaped per day and then split across resources in proportion to capacity × efficiency.
+
+    WORKING CALENDAR:
+    Ask which weekdays the teams work (suggest Monday–Friday) and always pass them as 'workingDays', since every day is worked when they are omitted. Ask which public holidays fall inside the project and whether any resource is on leave.
+    Holidays may also come from an uploaded CSV with a 'Holiday' column; those are merged automatically.
+    Pass them as 'calendar'. Targets are only scheduled on working days; non-working days are greyed out with zero target.
+
+    TABLE & COLUMN NAMES:
+    - The raw data table is named 'DailyProductionTable'.
+    - Base columns in 'DailyProductionTable' are: [Date (A), Day (B), Week (C), Month (D), Name (E)].
+    - Your 'dailyColumns' start at Column F (Index 6).
+    - Use these names and letters EXACTLY in your formulas.
+
+    For every PLAN, PIVOT, and DASHBOARD item, you MUST provide an Excel formula that references the 'DailyProductionTable'.
+    Use {rowIndex} for relative row references in Plan/Pivot.
+    Every definition is validated before generation: required fields, dates, sections and strategies, then each formula (table column names, column letters, {rowIndex} usage, circular references).
+    If the tool responds with errors, correct exactly those fields or formulas and call the tool again with the complete definition.
+
+    You MUST suggest this full architecture to the user and confirm it before generation.
+
+    IMPORTANT: You are a specialized Production Plan Agent. You must ONLY respond to queries related to production planning, project scheduling, and Excel generation for these plans. 
+    If a user asks about unrelated topics (e.g., weather, general knowledge, jokes, other software), politely decline and redirect them back to production planning.
+
+    UPLOADED FILES:
+    Tables in uploaded files are summarised rather than pasted in full: columns with types and ranges, date coverage, resources with their totals and a few sample rows.
+    When you need particular rows (a resource's entries, a date range, outliers), call 'query_file_rows' instead of guessing. Long documents may be shortened in the middle.
+
+    EDITING AN EXISTING PLAN:
+    Once a plan exists, make changes with the editing tools instead of calling 'generate_production_plan' again, so nothing already agreed is lost:
+    'update_project_fields' (name, goal, unit, dates, distribution, calendar), 'add_resource', 'remove_resource', 'add_column', 'edit_column_formula', 'rename_column' and 'append_actuals'.
+    Each edit replies with the changes it made or an error to fix. New columns always go on the end. Call 'render_workbook' when the edits are done to produce the updated file.
+
+    FORECASTS:
+    When the user asks whether the project will hit its goal, is on track or how far behind it is, call 'forecast_completion' and answer with its numbers:
+    the status, the projected completion date and output for each method with its band, and the daily rate needed to finish on time. Do not estimate these yourself.
+    Generated workbooks include a Forecast sheet once there are actuals.
+
+    WHAT-IF SCENARIOS:
+    For questions like "what if we add one more team" or "what if we finish two weeks earlier", call 'compare_scenarios' with one entry per variant, changing only the goal, dates, resources or distribution.
+    It does not change the plan. Summarise the trade-offs from its results; if the user picks a scenario, apply it with the editing tools.
+
+    PORTFOLIOS:
+    Every generated plan is saved as a project. When the user runs several projects that share teams and wants them together, or asks whether a team is over-allocated across projects, call 'build_portfolio'.
+    Report the over-allocated teams and days from its results and suggest which project's dates or resources to change.
+
+    TEMPLATES:
+    Before proposing an architecture for a new plan, call 'list_templates' and offer the ones that fit the work. If the user picks one, call 'apply_template' instead of writing the columns yourself,
+    then collect the project details with 'update_project_fields' and 'add_resource' and call 'render_workbook'. Adjust the template afterwards with the editing tools if the user wants changes.
+    A message starting with [TEMPLATE APPLIED] means the user already chose one from the picker. When the user wants to reuse the current plan's layout later, call 'save_template'.
+
+    Once you have the core project details (1-6) and have confirmed the full 4-sheet architecture, call the 'generate_production_plan' tool.
+    Be conversational and helpful within your domain. If information is missing, ask for it.`;
+
+export const GENERATE_PLAN_TOOL: FunctionDeclaration = {
+    name: "generate_production_plan",
+    description:
+        "Generates the production planning Excel file once core project details and column structure are confirmed.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            name: { type: Type.STRING, description: "The name of the project" },
+            goal: { type: Type.NUMBER, description: "The total numeric goal" },
+            unit: { type: Type.STRING, description: "The unit of measurement (e.g., 'units', 'hours')" },
+            startDate: { type: Type.STRING, description: "Start date in YYYY-MM-DD format" },
+            endDate: { type: Type.STRING, description: "End date in YYYY-MM-DD format" },
+            resources: {
+                type: Type.ARRAY,
+                description: "Teams or individuals working on the project",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        capacity: { type: Type.NUMBER, description: "Units per working day (or headcount). Omit for an equal share." },
+                        efficiency: { type: Type.NUMBER, description: "Throughput multiplier, 1 = nominal" },
+                        startDate: { type: Type.STRING, description: "YYYY-MM-DD, first day on the project" },
+                        endDate: { type: Type.STRING, description: "YYYY-MM-DD, last day on the project" },
+                    },
+                    required: ["name"],
+                },
+            },
+            columns: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        header: { type: Type.STRING, description: "The display name of the column" },
+                        key: { type: Type.STRING, description: "A unique key for the column" },
+                        section: { type: Type.STRING, enum: ["Target", "Actual", "Accumulative"], description: "Which section the column belongs to" },
+                        formula: { type: Type.STRING, description: "Excel formula referencing DailyProductionTable. Use {rowIndex} for the current row." },
+                    },
+                    required: ["header", "key", "section", "formula"],
+                },
+            },
+            dailyColumns: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        header: { type: Type.STRING },
+                        key: { type: Type.STRING },
+                        formula: { type: Type.STRING },
+                    },
+                    required: ["header", "key"],
+                },
+            },
+            pivotColumns: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        header: { type: Type.STRING },
+                        formula: { type: Type.STRING },
+                    },
+                    required: ["header", "formula"],
+                },
+            },
+            dashboardMetrics: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        label: { type: Type.STRING, description: "Tile label shown on the Dashboard sheet" },
+                        formula: { type: Type.STRING, description: "Excel formula referencing DailyProductionTable (no {rowIndex})" },
+                        format: { type: Type.STRING, description: "Excel number format or one of: number, decimal, percent, currency, days" },
+                    },
+                    required: ["label", "formula"],
+                },
+            },
+            distribution: {
+                type: Type.OBJECT,
+                description: "How the goal is spread over the project days. Defaults to the LPB ramp.",
+                properties: {
+                    strategy: { type: Type.STRING, enum: ["flat", "linear", "lpb", "s-curve", "front-loaded", "custom"] },
+                    startWeight: { type: Type.NUMBER, description: "Linear ramp only: relative output on the first day (e.g. 0.5)" },
+                    endWeight: { type: Type.NUMBER, description: "Linear ramp only: relative output on the last day (e.g. 1.0)" },
+                    weeklyWeights: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Custom only: relative output per project week, the last value repeats" },
+                },
+                required: ["strategy"],
+            },
+            calendar: {
+                type: Type.OBJECT,
+                description: "Working calendar. Non-working days get zero target.",
+                properties: {
+                    workingDays: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Working weekdays, 0 = Sunday … 6 = Saturday, e.g. [1, 2, 3, 4, 5] for Monday–Friday. Every day is worked when omitted." },
+                    holidays: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                date: { type: Type.STRING, description: "YYYY-MM-DD" },
+                                name: { type: Type.STRING },
+                            },
+                            required: ["date"],
+                        },
+                    },
+                    leave: {
+                        type: Type.ARRAY,
+                        description: "Per-resource leave or downtime ranges",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                resource: { type: Type.STRING },
+                                start: { type: Type.STRING, description: "YYYY-MM-DD, inclusive" },
+                                end: { type: Type.STRING, description: "YYYY-MM-DD, inclusive" },
+                                reason: { type: Type.STRING },
+                            },
+                            required: ["resource", "start", "end"],
+                        },
+                    },
+                },
+            },
+            actualData: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        date: { type: Type.STRING },
+                        name: { type: Type.STRING },
+                        actual: { type: Type.NUMBER },
+                    },
+                    required: ["date", "name", "actual"],
+                },
+            },
+        },
+        required: ["name", "goal", "unit", "startDate", "endDate", "resources", "columns"],
+    },
+};
+
+export const QUERY_ROWS_TOOL: FunctionDeclaration = {
+    name: "query_file_rows",
+    description: "Returns rows from a table the user uploaded in this conversation, filtered by column values. Use it when the file summary is not enough.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            file: { type: Type.STRING, description: "Attachment name as shown in the file summary. Optional when only one table was uploaded." },
+            filters: {
+                type: Type.ARRAY,
+                description: "All filters must match",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        column: { type: Type.STRING, description: "Column header, exactly as in the summary" },
+                        op: { type: Type.STRING, enum: ["equals", "contains", "gte", "lte"] },
+                        value: { type: Type.STRING, description: "Text, number, or a YYYY-MM-DD date for date columns" },
+                    },
+                    required: ["column", "op", "value"],
+                },
+            },
+            columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns to return; all when omitted" },
+            offset: { type: Type.NUMBER, description: "Matching rows to skip, for paging" },
+            limit: { type: Type.NUMBER, description: "Rows to return, at most 100 (default 20)" },
+        },
+    },
+};
+
+const COLUMN_TARGET = {
+    type: Type.STRING,
+    enum: ["dailyColumns", "columns", "pivotColumns", "dashboardMetrics"],
+    description: "Which list the column belongs to: dailyColumns (DailyProductionTable), columns (plan sheet), pivotColumns or dashboardMetrics",
+};
+
+const { properties: PLAN_PROPERTIES } = GENERATE_PLAN_TOOL.parameters!;
+
+export const PLAN_EDIT_TOOLS: FunctionDeclaration[] = [
+    {
+        name: "update_project_fields",
+        description: "Changes top-level fields of the current plan. Only the fields given are changed.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                name: PLAN_PROPERTIES!.name,
+                goal: PLAN_PROPERTIES!.goal,
+                unit: PLAN_PROPERTIES!.unit,
+                startDate: PLAN_PROPERTIES!.startDate,
+                endDate: PLAN_PROPERTIES!.endDate,
+                distribution: PLAN_PROPERTIES!.distribution,
+                calendar: PLAN_PROPERTIES!.calendar,
+            },
+        },
+    },
+    {
+        name: "add_resource",
+        description: "Adds a team or individual to the current plan.",
+        parameters: PLAN_PROPERTIES!.resources.items,
+    },
+    {
+        name: "remove_resource",
+        description: "Removes a resource, with its leave and confirmed aliases. Its actuals are kept and listed as unassigned.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: { name: { type: Type.STRING } },
+            required: ["name"],
+        },
+    },
+    {
+        name: "add_column",
+        description: "Appends a column (or dashboard metric) to the end of one of the plan's lists.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                target: COLUMN_TARGET,
+                header: { type: Type.STRING, description: "Column header, or the tile label for dashboardMetrics" },
+                key: { type: Type.STRING, description: "Unique key for dailyColumns and columns; derived from the header when omitted" },
+                section: { type: Type.STRING, enum: ["Target", "Actual", "Accumulative"], description: "Required for columns" },
+                formula: { type: Type.STRING, description: "Excel formula, as for generate_production_plan. Optional for dailyColumns only." },
+                format: { type: Type.STRING, description: "dashboardMetrics only: number format or one of number, decimal, percent, currency, days" },
+            },
+            required: ["target", "header"],
+        },
+    },
+    {
+        name: "edit_column_formula",
+        description: "Replaces the formula of an existing column or dashboard metric.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                target: COLUMN_TARGET,
+                column: { type: Type.STRING, description: "Current header, label or key" },
+                formula: { type: Type.STRING, description: "The new formula; empty clears a daily column's formula" },
+            },
+            required: ["target", "column", "formula"],
+        },
+    },
+    {
+        name: "rename_column",
+        description: "Renames a column or dashboard metric. Formulas that refer to it by table column name are updated too.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                target: COLUMN_TARGET,
+                column: { type: Type.STRING, description: "Current header, label or key" },
+                newName: { type: Type.STRING },
+            },
+            required: ["target", "column", "newName"],
+        },
+    },
+    {
+        name: "append_actuals",
+        description: "Adds actual production figures to the plan. A date and resource already recorded takes the new value.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: { items: PLAN_PROPERTIES!.actualData },
+            required: ["items"],
+        },
+    },
+    {
+        name: "render_workbook",
+        description: "Builds the Excel workbook from the current plan after edits, and saves it as a new revision.",
+    },
+];
+
+export const FORECAST_TOOL: FunctionDeclaration = {
+    name: "forecast_completion",
+    description: "Projects the completion date and final output of the current plan from its actuals, using run-rate, moving average and linear trend with 80% bands, and gives the daily rate needed to finish on time.",
+};
+
+export const COMPARE_SCENARIOS_TOOL: FunctionDeclaration = {
+    name: "compare_scenarios",
+    description: "Builds what-if variants of the current plan and sends one workbook comparing them with the plan as it is: a sheet per scenario and a summary of required daily rate, peak load per resource and end date.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            scenarios: {
+                type: Type.ARRAY,
+                description: "Up to 5 variants; the current plan is always included as the first column",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING, description: "Short label, e.g. 'Add Team D' or 'Finish 2 weeks early'" },
+                        goal: PLAN_PROPERTIES!.goal,
+                        startDate: PLAN_PROPERTIES!.startDate,
+                        endDate: PLAN_PROPERTIES!.endDate,
+                        distribution: PLAN_PROPERTIES!.distribution,
+                        addResources: PLAN_PROPERTIES!.resources,
+                        removeResources: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Names of resources to leave out" },
+                    },
+                    required: ["name"],
+                },
+            },
+        },
+        required: ["scenarios"],
+    },
+};
+
+export const PORTFOLIO_TOOL: FunctionDeclaration = {
+    name: "build_portfolio",
+    description: "Combines saved projects that share teams into one workbook: each project's plan, the combined daily load per team with over-allocated days flagged, and a portfolio dashboard.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            projects: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Saved project names or ids; every saved project when omitted" },
+            capacities: {
+                type: Type.ARRAY,
+                description: "Daily capacity per team across all projects, when it differs from what the projects declare",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        team: { type: Type.STRING },
+                        capacity: { type: Type.NUMBER },
+                    },
+                    required: ["team", "capacity"],
+                },
+            },
+        },
+    },
+};
+
+export const TEMPLATE_TOOLS: FunctionDeclaration[] = [
+    {
+        name: "list_templates",
+        description: "Lists the plan templates: the built-in ones for annotation, manufacturing and data collection, and those saved by users, each with its columns.",
+    },
+    {
+        name: "apply_template",
+        description: "Sets the current plan's daily, plan, pivot and dashboard columns from a template, replacing the ones it has. The unit and distribution are only set when the plan has none.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: { template: { type: Type.STRING, description: "Template id or name from list_templates" } },
+            required: ["template"],
+        },
+    },
+    {
+        name: "save_template",
+        description: "Saves the current plan's column architecture as a template for future projects. Dates, goal, resources and actuals are not saved.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                name: { type: Type.STRING, description: "Unique template name" },
+                description: { type: Type.STRING, description: "What kind of work the template suits" },
+            },
+            required: ["name"],
+        },
+    },
+];
+
+export const AGENT_TOOLS: FunctionDeclaration[] = [
+    GENERATE_PLAN_TOOL,
+    QUERY_ROWS_TOOL,
+    FORECAST_TOOL,
+    COMPARE_SCENARIOS_TOOL,
+    PORTFOLIO_TOOL,
+    ...PLAN_EDIT_TOOLS,
+    ...TEMPLATE_TOOLS,
+];
@@ -0,0 +1,508 @@
+import { AgentEvent, ChatAttachmentPayload, ChatRequest } from '../src/types/agent';
+import { ProjectData, ResourceSpec } from '../src/types/production';
+import { actualKey, mergeActuals } from '../src/utils/actualsMerge';
+import { generateExcelFile, getPlanFileName } from '../src/utils/excelGenerator';
+import {
+    DEFAULT_FILE_CONTEXT_TOKENS,
+    RowQuery,
+    budgetPerFile,
+    estimateTokens,
+    fitTextToBudget,
+    queryTableRows,
+    summarizeTable,
+} from '../src/utils/fileContext';
+import { describeForecast, forecastProject } from '../src/utils/forecast';
+import { formatFormulaIssues, validateProjectFormulas } from '../src/utils/formulaValidator';
+import {
+    NewColumn,
+    PatchResult,
+    addColumn,
+    addResource,
+    appendActualData,
+    applyTemplate,
+    describeChanges,
+    editColumnFormula,
+    removeResource,
+    renameColumn,
+    updateProjectFields,
+} from '../src/utils/planPatches';
+import { describeResourceLoad } from '../src/utils/portfolio';
+import { PORTFOLIO_FILE_NAME, generatePortfolioWorkbook } from '../src/utils/portfolioWorkbook';
+import { describeTemplate } from '../src/utils/planTemplates';
+import { parseProjectData, parseProjectDraft } from '../src/utils/projectSchema';
+import { describeUnassignedActuals, reconcileProjectActuals } from '../src/utils/resourceMatching';
+import { getResourceNames } from '../src/utils/resources';
+import { generateScenarioWorkbook, getScenarioFileName } from '../src/utils/scenarioWorkbook';
+import { BASE_SCENARIO, MAX_SCENARIOS, Scenario, ScenarioSpec, buildScenario, describeScenarios } from '../src/utils/scenarios';
+import { AgentSession } from './chatSessions';
+import { resolvePortfolioProjects } from './portfolioRoutes';
+import { MessagePart, ToolCall } from './providers';
+import { appendActuals, createProject, getProject, listProjects, saveRevision, updateProject, updateResourceAliases } from './projectStore';
+import { createTemplate, findTemplate, listTemplates } from './templateRoutes';
+
+const MAX_DEFINITION_RETRIES = 2;
+const MAX_TOOL_ROUNDS = 8;
+
+const buildContextPreamble = (project: Partial<ProjectData> | null) =>
+    project
+        ? `[CURRENT PROJECT STATE: Name="${project.name || '?'}", Goal=${project.goal || '?'}, Unit="${project.unit || '?'}", Dates=${project.startDate || '?'}/${project.endDate || '?'}, Resources=${getResourceNames(project.resources).join(',') || '?'}, Distribution=${project.distribution?.strategy || 'lpb'}]\n`
+        : '';
+
+/**
+ * Points the session at a stored project, loading its definition and actuals as the working state.
+ */
+const attachProject = (session: AgentSession, projectId: string) => {
+    if (session.projectId === projectId) return;
+    const stored = getProject(projectId);
+    if (!stored) return;
+    const { actualData, ...definition } = stored.project;
+    session.projectId = projectId;
+    session.currentProject = definition;
+    session.uploadedData = actualData || [];
+};
+
+const rememberUploads = (session: AgentSession, request: ChatRequest) => {
+    const attachments = request.attachments || [];
+    // Files and sheets are merged in the order they were attached; a later one wins on the same date and resource
+    session.uploadedData = mergeActuals([session.uploadedData, ...attachments.map(a => a.parsedData || [])]).rows;
+    attachments.forEach(attachment => {
+        if (attachment.table) session.uploadedTables[attachment.name] = attachment.table;
+        if (session.projectId && attachment.parsedData) appendActuals(session.projectId, attachment.parsedData);
+        attachment.holidays?.forEach(holiday => {
+            if (!session.uploadedHolidays.some(h => h.date === holiday.date)) session.uploadedHolidays.push(holiday);
+        });
+    });
+};
+
+/**
+ * Folds actuals and holidays uploaded earlier in the session into the model's project definition.
+ */
+const mergeUploads = (session: AgentSession, projectData: ProjectData) => {
+    const combinedActualData = [...(projectData.actualData || [])];
+    session.uploadedData.forEach(upItem => {
+        const exists = combinedActualData.some(c => c.date === upItem.date && c.name === upItem.name);
+        if (!exists) combinedActualData.push(upItem);
+    });
+    projectData.actualData = combinedActualData.length > 0 ? combinedActualData : undefined;
+
+    if (session.uploadedHolidays.length > 0) {
+        const holidays = [...(projectData.calendar?.holidays || [])];
+        session.uploadedHolidays.forEach(h => {
+            if (!holidays.some(existing => existing.date === h.date)) holidays.push(h);
+        });
+        projectData.calendar = { ...projectData.calendar, holidays };
+    }
+};
+
+/**
+ * What the model sees of one attachment: its text and notes, then a summary of its table, within the file's share of the budget.
+ */
+const describeAttachment = (attachment: ChatAttachmentPayload, budgetTokens: number): string => {
+    const notes = fitTextToBudget(attachment.metadata || '', attachment.table ? Math.floor(budgetTokens / 2) : budgetTokens);
+    if (!attachment.table) return notes;
+    const summary = summarizeTable(attachment.table, attachment.name, {
+        actuals: attachment.parsedData,
+        budgetTokens: budgetTokens - estimateTokens(notes),
+    });
+    return `${summary}${notes}`;
+};
+
+const runRowQuery = (session: AgentSession, args: Record<string, unknown>) => {
+    const names = Object.keys(session.uploadedTables);
+    const name = typeof args.file === 'string' && args.file ? args.file : names.length === 1 ? names[0] : undefined;
+    const table = name ? session.uploadedTables[name] : undefined;
+    if (!table) {
+        return names.length > 0
+            ? { error: `Unknown file${name ? ` "${name}"` : ''}; pass one of the uploaded files.`, files: names }
+            : { error: 'No tables have been uploaded in this conversation.' };
+    }
+    return { file: name, ...queryTableRows(table, args as RowQuery) };
+};
+
+/**
+ * Forecast for the current plan from its actuals and those uploaded in the session, for the model to quote.
+ */
+const runForecast = (session: AgentSession) => {
+    const project = { ...session.currentProject } as ProjectData;
+    const missing = (['goal', 'startDate', 'endDate'] as const).filter(field => !project[field]);
+    if (missing.length > 0) return { error: `The plan needs ${missing.join(', ')} before it can be forecast.` };
+    mergeUploads(session, project);
+    const forecast = forecastProject(project);
+    if (!forecast) return { error: 'There are no actuals to forecast from yet. Ask the user to upload or enter some.' };
+    const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+    return {
+        summary: describeForecast(forecast, project.unit),
+        asOf: forecast.asOf,
+        status: forecast.status,
+        actualToDate: round(forecast.actualToDate),
+        targetToDate: round(forecast.targetToDate),
+        remaining: round(forecast.remaining),
+        workingDaysLeft: forecast.workingDaysLeft,
+        requiredDailyRate: round(forecast.requiredDailyRate),
+        methods: forecast.methods.map(m => ({
+            method: m.method,
+            dailyRate: round(m.dailyRate),
+            projectedTotal: round(m.projectedTotal),
+            projectedTotalLow: round(m.projectedTotalLow),
+            projectedTotalHigh: round(m.projectedTotalHigh),
+            completionDate: m.completionDate,
+        })),
+    };
+};
+
+const runTemplateList = () => ({
+    templates: listTemplates().map(template => ({ id: template.id, name: template.name, builtIn: template.builtIn, summary: describeTemplate(template) })),
+});
+
+const saveCurrentTemplate = (session: AgentSession, args: Record<string, unknown>) => {
+    const { template, errors } = createTemplate(session.currentProject || {}, String(args.name ?? ''), args.description as string | undefined);
+    if (!template) return { error: 'The template could not be saved.', errors };
+    return { template: { id: template.id, name: template.name }, note: 'Saved. It will be offered by list_templates for new plans.' };
+};
+
+/**
+ * build_portfolio's arguments checked for shape, since the model may send a name for a list or a map for the capacities.
+ */
+const readPortfolioArgs = (args: ToolArgs): { refs?: string[]; capacities: Record<string, number> } | { errors: string[] } => {
+    const errors: string[] = [];
+    if (args.projects !== undefined && !Array.isArray(args.projects)) errors.push('projects must be a list of saved project names or ids');
+    if (args.capacities !== undefined && !Array.isArray(args.capacities)) errors.push('capacities must be a list of { team, capacity }');
+    const capacities: Record<string, number> = {};
+    if (Array.isArray(args.capacities)) {
+        args.capacities.forEach((entry: unknown, i: number) => {
+            const { team, capacity } = (entry && typeof entry === 'object' ? entry : {}) as { team?: unknown; capacity?: unknown };
+            const value = Number(capacity);
+            if (typeof team !== 'string' || !team.trim()) errors.push(`capacities[${i}].team must be a team name`);
+            else if (!Number.isFinite(value) || value <= 0) errors.push(`capacities[${i}].capacity must be a number above zero`);
+            else capacities[team.trim()] = value;
+        });
+    }
+    if (errors.length > 0) return { errors };
+    return { refs: Array.isArray(args.projects) ? args.projects.map(String) : undefined, capacities };
+};
+
+const applyTemplateByName = (project: Partial<ProjectData>, ref: string): PatchResult => {
+    const template = findTemplate(ref);
+    if (!template) return { error: `No template "${ref}".`, details: listTemplates().map(t => t.name) };
+    return applyTemplate(project, template);
+};
+
+type ToolArgs = Record<string, any>;
+
+const PLAN_EDITS: Record<string, (project: Partial<ProjectData>, args: ToolArgs) => PatchResult> = {
+    update_project_fields: (project, args) => updateProjectFields(project, args),
+    add_resource: (project, args) => addResource(project, args as ResourceSpec),
+    remove_resource: (project, args) => removeResource(project, args.name),
+    add_column: (project, { target, ...column }) => addColumn(project, target, column as NewColumn),
+    edit_column_formula: (project, args) => editColumnFormula(project, args.target, args.column, args.formula),
+    rename_column: (project, args) => renameColumn(project, args.target, args.column, args.newName),
+    append_actuals: (project, args) => appendActualData(project, args.items),
+    apply_template: (project, args) => applyTemplateByName(project, args.template),
+};
+
+// Answered straight back to the model, which then carries on with its reply
+const ANSWERED_TOOLS = new Set([
+    'query_file_rows',
+    'forecast_completion',
+    'compare_scenarios',
+    'build_portfolio',
+    'render_workbook',
+    'list_templates',
+    'save_template',
+    ...Object.keys(PLAN_EDITS),
+]);
+
+/**
+ * Function response for a call whose arguments the provider could not read, or null when they were read.
+ */
+const checkToolArgs = (call: ToolCall) => call.argsError
+    ? { error: `${call.argsError} Call ${call.name} again with complete arguments.`, errors: [call.argsError] }
+    : null;
+
+/**
+ * Function response for a generate_production_plan call that can't be built yet, or null when it can.
+ */
+const checkPlanDefinition = (call: ToolCall) => {
+    const unreadable = checkToolArgs(call);
+    if (unreadable) return unreadable;
+    const parsed = parseProjectData(call.args);
+    if (parsed.errors) {
+        return {
+            error: 'The definition is invalid. Fix these fields and call generate_production_plan again with the full definition.',
+            errors: parsed.errors,
+        };
+    }
+    const validation = validateProjectFormulas(parsed.project);
+    if (validation.valid) return null;
+    return {
+        error: 'Some formulas would break in Excel. Fix them and call generate_production_plan again with the full definition.',
+        errors: formatFormulaIssues(validation.errors),
+    };
+};
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array) => Buffer.from(buffer as ArrayBuffer).toString('base64');
+
+const TOOL_STATUS: Record<string, string> = {
+    generate_production_plan: 'Building the production plan workbook...',
+    query_file_rows: 'Looking up rows in the uploaded file...',
+    forecast_completion: 'Forecasting from the actuals...',
+    compare_scenarios: 'Building the scenario comparison...',
+    build_portfolio: 'Building the portfolio workbook...',
+    render_workbook: 'Building the production plan workbook...',
+    list_templates: 'Looking up plan templates...',
+    save_template: 'Saving the template...',
+    ...Object.fromEntries(Object.keys(PLAN_EDITS).map(name => [name, 'Updating the plan...'])),
+};
+
+/**
+ * Generates the workbook for a complete definition, keeps it as a revision of the stored project and
+ * sends both to the client. Returns the note about actuals that match no resource, if any.
+ */
+const deliverWorkbook = async (
+    session: AgentSession,
+    projectData: ProjectData,
+    emit: (event: AgentEvent) => void,
+    signal?: AbortSignal,
+): Promise<string> => {
+    // Aliases are confirmed by the user, not the model; carry them over to the new definition
+    if (session.currentProject?.resourceAliases) projectData.resourceAliases = session.currentProject.resourceAliases;
+    session.currentProject = projectData;
+    mergeUploads(session, projectData);
+    const buffer = await generateExcelFile(projectData);
+    signal?.throwIfAborted();
+
+    // Every generated plan is kept as a revision of the conversation's stored project
+    const stored = (session.projectId && updateProject(session.projectId, projectData)) || createProject(projectData);
+    session.projectId = stored.id;
+    const fileName = getPlanFileName(projectData);
+    saveRevision(stored.id, projectData, fileName, buffer as ArrayBuffer);
+
+    emit({ type: 'project', project: projectData, projectId: stored.id });
+    emit({ type: 'file', name: fileName, data: toBase64(buffer as ArrayBuffer) });
+    return describeUnassignedActuals(reconcileProjectActuals(projectData).unassigned);
+};
+
+/**
+ * Starts a new project from a template picked in the UI. Returns the note that tells the model about it.
+ */
+const startFromTemplate = (session: AgentSession, templateId: string, emit: (event: AgentEvent) => void): string => {
+    const template = findTemplate(templateId);
+    if (!template) return `[TEMPLATE NOT FOUND: "${templateId}"; call list_templates and ask the user to choose again]\n`;
+    const result = applyTemplate({}, template);
+    if ('error' in result) return `[TEMPLATE NOT APPLIED: ${result.error}]\n`;
+    // A new plan: the previous project's actuals, holidays and files stay with it
+    session.projectId = null;
+    session.currentProject = result.project;
+    session.uploadedData = [];
+    session.uploadedHolidays = [];
+    session.uploadedTables = {};
+    session.editLog.push({ tool: 'apply_template', changes: result.changes, at: Date.now() });
+    emit({ type: 'patch', project: result.project, changes: result.changes });
+    return `[TEMPLATE APPLIED: "${template.name}" set the columns of a new plan. Collect the project details, then call render_workbook.]\n`;
+};
+
+/**
+ * Sends one user message through the session's chat, streaming text as it arrives, then runs any tool calls.
+ */
+export const runAgentTurn = async (
+    session: AgentSession,
+    request: ChatRequest,
+    emit: (event: AgentEvent) => void,
+    signal?: AbortSignal,
+) => {
+    if (request.projectId) attachProject(session, request.projectId);
+    if (request.project) session.currentProject = request.project;
+    if (session.projectId && request.project?.resourceAliases) updateResourceAliases(session.projectId, request.project.resourceAliases);
+    // Before the uploads, so files sent with the choice belong to the new plan
+    const templateNote = request.templateId ? startFromTemplate(session, request.templateId, emit) : '';
+    rememberUploads(session, request);
+
+    const attachments = request.attachments || [];
+    // Read here rather than at import, once dotenv has run; split evenly across the files
+    const fileBudget = budgetPerFile(Number(process.env.FILE_CONTEXT_TOKENS) || DEFAULT_FILE_CONTEXT_TOKENS, attachments.length);
+    const fileMetadata = attachments.map(a => describeAttachment(a, fileBudget)).join('');
+    const fullPrompt = `${buildContextPreamble(session.currentProject)}${templateNote}${request.text}${fileMetadata}`;
+    const images = attachments.filter(a => a.type.startsWith('image/') && a.data);
+
+    let streamedText = '';
+    let paragraphBreak = false; // Set once the server has spoken, so the model's next words start a new paragraph
+    const streamReply = (parts: MessagePart[]) => session.chat.sendMessageStream(parts, {
+        signal,
+        onText: text => {
+            const chunk = paragraphBreak ? `\n\n${text}` : text;
+            paragraphBreak = false;
+            streamedText += chunk;
+            emit({ type: 'text', text: chunk });
+        },
+        // Let the UI show progress while the rest of the reply and the tool itself are still running
+        onToolCall: call => {
+            if (TOOL_STATUS[call.name]) emit({ type: 'status', message: TOOL_STATUS[call.name] });
+        },
+    });
+    // Messages from the server itself start a new paragraph after any streamed text
+    const say = (text: string) => {
+        const chunk = streamedText ? `\n\n${text}` : text;
+        streamedText += chunk;
+        paragraphBreak = true;
+        emit({ type: 'text', text: chunk });
+    };
+
+    let editedLines: string[] = []; // Changes since the last summary, shown together in the chat
+    const sayEdits = () => {
+        if (editedLines.length > 0) say(`Updated the plan:\n${editedLines.map(line => `- ${line}`).join('\n')}`);
+        editedLines = [];
+    };
+    const applyEdit = (name: string, args: ToolArgs) => {
+        const result = PLAN_EDITS[name](session.currentProject || {}, args);
+        if ('error' in result) return result;
+        session.currentProject = result.project;
+        session.editLog.push({ tool: name, changes: result.changes, at: Date.now() });
+        if (name === 'append_actuals' && session.projectId) {
+            // Stores the rows as the plan now holds them (dates normalised), not the model's raw items
+            const given = new Set((parseProjectDraft({ actualData: args.items }).project.actualData || []).map(actualKey));
+            appendActuals(session.projectId, (result.project.actualData || []).filter(row => given.has(actualKey(row))));
+        }
+        const lines = describeChanges(result.changes);
+        emit({ type: 'patch', project: result.project, changes: result.changes });
+        editedLines.push(...lines);
+        return { changes: lines.length > 0 ? lines : ['Nothing changed.'] };
+    };
+
+    const renderCurrentPlan = async () => {
+        const parsed = parseProjectData(session.currentProject || {});
+        if (parsed.errors) {
+            return { error: 'The plan is incomplete or invalid. Fix these with the editing tools, or call generate_production_plan with the full definition.', errors: parsed.errors };
+        }
+        const projectData = parsed.project;
+        const validation = validateProjectFormulas(projectData);
+        if (!validation.valid) {
+            return { error: 'Some formulas would break in Excel. Fix them with edit_column_formula, then render again.', errors: formatFormulaIssues(validation.errors) };
+        }
+        sayEdits(); // Before the file, so the list stays with the message that explains it
+        const unassignedWarning = await deliverWorkbook(session, projectData, emit, signal);
+        // Starts the caption on the new file message; the model's reply follows it
+        streamedText = '';
+        say(`Here's the updated production plan for **${projectData.name}**.${unassignedWarning ? `\n\n${unassignedWarning}` : ''}`);
+        return { fileName: getPlanFileName(projectData), note: 'The workbook has been sent to the user.' };
+    };
+
+    const compareScenarios = async (specs: ScenarioSpec[] = []) => {
+        const parsed = parseProjectData(session.currentProject || {});
+        if (parsed.errors) return { error: 'Scenarios need a complete plan to start from.', errors: parsed.errors };
+        if (!Array.isArray(specs)) return { error: 'scenarios must be a list of scenarios, each with a name and its changes.' };
+        if (specs.length === 0) return { error: 'Pass at least one scenario.' };
+        if (specs.length > MAX_SCENARIOS - 1) return { error: `Compare at most ${MAX_SCENARIOS - 1} scenarios at a time.` };
+        const base = parsed.project;
+        mergeUploads(session, base);
+
+        const scenarios: Scenario[] = [{ name: BASE_SCENARIO, project: base, changes: [] }];
+        for (const spec of specs) {
+            const built = buildScenario(base, spec);
+            if ('error' in built) return built;
+            scenarios.push(built.scenario);
+        }
+        const { buffer, summaries } = await generateScenarioWorkbook(base, scenarios);
+        signal?.throwIfAborted();
+        const fileName = getScenarioFileName(base);
+        const lines = describeScenarios(summaries, base.unit);
+        sayEdits();
+        emit({ type: 'file', name: fileName, data: toBase64(buffer as ArrayBuffer) });
+        // Starts the caption on the new file message; the model's reply follows it
+        streamedText = '';
+        say(`Here's the scenario comparison for **${base.name}**:\n${lines.map(line => `- ${line}`).join('\n')}`);
+        return { fileName, note: 'The workbook has been sent to the user and the plan is unchanged.', scenarios: summaries };
+    };
+
+    const buildPortfolio = async (args: ToolArgs) => {
+        const checked = readPortfolioArgs(args);
+        if ('errors' in checked) return { error: 'The portfolio arguments are invalid; nothing was built.', errors: checked.errors };
+        const { projects, errors } = resolvePortfolioProjects(checked.refs);
+        if (errors.length > 0) return { error: 'Some projects could not be used.', errors, saved: listProjects().map(p => p.name) };
+        const { capacities } = checked;
+        const { buffer, summaries, load } = await generatePortfolioWorkbook(projects, capacities);
+        signal?.throwIfAborted();
+        const lines = describeResourceLoad(load);
+        sayEdits();
+        emit({ type: 'file', name: PORTFOLIO_FILE_NAME, data: toBase64(buffer as ArrayBuffer) });
+        // Starts the caption on the new file message; the model's reply follows it
+        streamedText = '';
+        say(`Here's the portfolio workbook for ${projects.map(p => `**${p.name}**`).join(', ')}:\n${lines.map(line => `- ${line}`).join('\n')}`);
+        return {
+            fileName: PORTFOLIO_FILE_NAME,
+            note: 'The workbook has been sent to the user.',
+            projects: summaries,
+            findings: lines,
+            overAllocatedDays: load.overAllocations.length,
+        };
+    };
+
+    const answerToolCall = async (name: string, args: ToolArgs) => {
+        if (name === 'query_file_rows') return runRowQuery(session, args);
+        if (name === 'forecast_completion') return runForecast(session);
+        if (name === 'compare_scenarios') return compareScenarios(args.scenarios);
+        if (name === 'build_portfolio') return buildPortfolio(args);
+        if (name === 'render_workbook') return renderCurrentPlan();
+        if (name === 'list_templates') return runTemplateList();
+        if (name === 'save_template') return saveCurrentTemplate(session, args);
+        return applyEdit(name, args);
+    };
+
+    let reply = await streamReply([
+        { text: fullPrompt },
+        ...images.map(image => ({ image: { data: image.data!.split(',')[1], mimeType: image.type } })),
+    ]);
+
+    // Lookups, forecasts, scenarios, portfolios, edits and renders are answered in the order the model asked for them
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        if (!reply.toolCalls.some(c => ANSWERED_TOOLS.has(c.name))) break;
+        // Every call in the reply gets a result; a plan asked for alongside other tools is not built, and the model is told so
+        const results: MessagePart[] = [];
+        for (const call of reply.toolCalls) {
+            const response = checkToolArgs(call) || (ANSWERED_TOOLS.has(call.name)
+                ? await answerToolCall(call.name, call.args)
+                : call.name === 'generate_production_plan'
+                    ? { error: 'Not run: call generate_production_plan on its own, once the other tools have answered.' }
+                    : { error: `Unknown tool "${call.name}".` });
+            results.push({ toolResult: { id: call.id, name: call.name, response } });
+        }
+        sayEdits();
+        reply = await streamReply(results);
+    }
+
+    // Out of rounds: the open calls still get an answer, so no provider's history ends on an unanswered call
+    if (reply.toolCalls.some(c => ANSWERED_TOOLS.has(c.name))) {
+        const response = { error: `Not run: the tool limit for one message (${MAX_TOOL_ROUNDS} rounds) was reached. Tell the user what was done and what is left, without calling tools.` };
+        reply = await streamReply(reply.toolCalls.map(call => ({ toolResult: { id: call.id, name: call.name, response } })));
+    }
+
+    // Invalid arguments and formulas go back to the model as a tool result so it can correct itself
+    for (let retries = 0; retries < MAX_DEFINITION_RETRIES; retries++) {
+        const call = reply.toolCalls.find(c => c.name === 'generate_production_plan');
+        if (!call) break;
+        const response = checkPlanDefinition(call);
+        if (!response) break;
+        reply = await streamReply([{ toolResult: { id: call.id, name: call.name, response } }]);
+    }
+
+    if (!reply.toolCalls.some(c => c.name === 'generate_production_plan')) {
+        if (!streamedText) say("I'm sorry, I didn't quite get that. Could you please provide more details about your project?");
+        return;
+    }
+
+    for (const call of reply.toolCalls) {
+        if (call.name !== 'generate_production_plan') continue;
+        const invalid = checkPlanDefinition(call);
+        if (invalid) {
+            say(`I couldn't produce a valid plan. Please review these issues:\n\n${invalid.errors.map(e => `- ${e}`).join('\n')}`);
+            continue;
+        }
+
+        const projectData = parseProjectData(call.args).project!;
+        const unassignedWarning = await deliverWorkbook(session, projectData, emit, signal);
+        // Starts the caption on the new file message
+        emit({
+            type: 'text',
+            text: `I've generated the production plan for **${projectData.name}**. You can download it below.${unassignedWarning ? `\n\n${unassignedWarning}` : ''}`,
+        });
+    }
+};
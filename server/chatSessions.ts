@@ -0,0 +1,58 @@
+import { randomUUID } from 'crypto';
+import { ActualDataItem, Holiday, ProjectChange, ProjectData, SourceTable } from '../src/types/production';
+import { AGENT_TOOLS, buildSystemInstruction } from './agent';
+import { LLMProvider, ProviderChat } from './providers';
+
+export interface PlanEdit {
+    tool: string;
+    changes: ProjectChange[];
+    at: number;
+}
+
+export interface AgentSession {
+    id: string;
+    chat: ProviderChat;
+    currentProject: Partial<ProjectData> | null;
+    projectId: string | null; // Stored project the conversation is attached to
+    uploadedData: ActualDataItem[];
+    uploadedHolidays: Holiday[];
+    uploadedTables: Record<string, SourceTable>; // Raw rows by attachment name, for query_file_rows
+    editLog: PlanEdit[]; // Changes made through the plan-editing tools, oldest first
+    lastActive: number;
+}
+
+const SESSION_TTL_MS = 6 * 60 * 60 * 1000;
+const sessions = new Map<string, AgentSession>();
+
+const evictIdleSessions = () => {
+    const cutoff = Date.now() - SESSION_TTL_MS;
+    sessions.forEach((session, id) => {
+        if (session.lastActive < cutoff) sessions.delete(id);
+    });
+};
+
+export const createSession = (provider: LLMProvider): AgentSession => {
+    evictIdleSessions();
+    const today = new Date().toLocaleDateString('en-CA'); // Gets YYYY-MM-DD in local time
+    const session: AgentSession = {
+        id: randomUUID(),
+        chat: provider.createChat({ systemInstruction: buildSystemInstruction(today), tools: AGENT_TOOLS }),
+        currentProject: null,
+        projectId: null,
+        uploadedData: [],
+        uploadedHolidays: [],
+        uploadedTables: {},
+        editLog: [],
+        lastActive: Date.now(),
+    };
+    sessions.set(session.id, session);
+    return session;
+};
+
+export const getSession = (id: string): AgentSession | undefined => {
+    const session = sessions.get(id);
+    if (session) session.lastActive = Date.now();
+    return session;
+};
+
+export const deleteSession = (id: string) => sessions.delete(id);
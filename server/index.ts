@@ -0,0 +1,97 @@
+import dotenv from 'dotenv';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { AgentEvent, ChatRequest } from '../src/types/agent';
+import { createSession, deleteSession, getSession } from './chatSessions';
+import { runAgentTurn } from './agentTurn';
+import { portfolioRoutes } from './portfolioRoutes';
+import { projectRoutes } from './projectRoutes';
+import { createProvider, LLMProvider } from './providers';
+import { templateRoutes } from './templateRoutes';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT || process.env.API_PORT || 3001);
+
+const PROVIDER_NAME = process.env.LLM_PROVIDER || 'gemini';
+if (PROVIDER_NAME === 'gemini' && !process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set; chat requests will fail until it is configured.');
+}
+
+// Keys never leave the server. Created lazily so the server still starts without them.
+let provider: LLMProvider | null = null;
+const getProvider = () => {
+    if (!provider) provider = createProvider();
+    return provider;
+};
+
+const app = express();
+app.use(express.json({ limit: '50mb' }));
+
+app.post('/api/chat/sessions', (_req, res) => {
+    try {
+        const session = createSession(getProvider());
+        res.status(201).json({ sessionId: session.id });
+    } catch (error) {
+        console.error('Failed to start chat session:', error);
+        res.status(503).json({ error: error instanceof Error ? error.message : 'Chat is unavailable' });
+    }
+});
+
+app.delete('/api/chat/sessions/:id', (req, res) => {
+    deleteSession(req.params.id);
+    res.status(204).end();
+});
+
+app.post('/api/chat/sessions/:id/messages', async (req, res) => {
+    const session = getSession(req.params.id);
+    if (!session) {
+        res.status(404).json({ error: 'Chat session not found' });
+        return;
+    }
+    const request = req.body as ChatRequest;
+    if (typeof request?.text !== 'string') {
+        res.status(400).json({ error: 'Message text is required' });
+        return;
+    }
+
+    // Newline-delimited JSON events, flushed as they are produced
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+    const emit = (event: AgentEvent) => {
+        if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+    };
+
+    // The Stop button (or a closed tab) drops the connection; cancel the model call with it
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+        await runAgentTurn(session, request, emit, controller.signal);
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(`${PROVIDER_NAME} error:`, error);
+        emit({ type: 'error', message: "I'm having a bit of trouble connecting to my brain. Could you try again?" });
+    }
+    emit({ type: 'done' });
+    res.end();
+});
+
+app.use('/api/projects', projectRoutes);
+app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/templates', templateRoutes);
+
+// Serve the built front end when it exists (npm run build)
+const distDir = path.resolve(process.cwd(), 'dist');
+if (fs.existsSync(distDir)) {
+    app.use(express.static(distDir));
+    app.get(/^(?!\/api\/).*/, (_req, res) => res.sendFile(path.join(distDir, 'index.html')));
+}
+
+app.listen(PORT, () => {
+    console.log(`Production Plan Agent server listening on http://localhost:${PORT} (model provider: ${PROVIDER_NAME})`);
+});
@@ -0,0 +1,57 @@
+import express from 'express';
+import { ProjectData } from '../src/types/production';
+import { MAX_PORTFOLIO_PROJECTS } from '../src/utils/portfolio';
+import { PORTFOLIO_FILE_NAME, generatePortfolioWorkbook } from '../src/utils/portfolioWorkbook';
+import { parseProjectData } from '../src/utils/projectSchema';
+import { findProject, getProject, listProjects } from './projectStore';
+
+/**
+ * Projects for a portfolio: stored ones by id or name, inline definitions, or every stored project when neither is given.
+ */
+export const resolvePortfolioProjects = (refs?: string[], definitions?: unknown[]): { projects: ProjectData[]; errors: string[] } => {
+    const errors: string[] = [];
+    const projects: ProjectData[] = [];
+    (refs || []).forEach(ref => {
+        const stored = findProject(String(ref));
+        if (stored) projects.push(stored.project);
+        else errors.push(`No stored project "${ref}"`);
+    });
+    (definitions || []).forEach((definition, i) => {
+        const parsed = parseProjectData(definition);
+        if (parsed.errors) errors.push(...parsed.errors.map(error => `projects[${i}].${error}`));
+        else projects.push(parsed.project);
+    });
+    if (!refs?.length && !definitions?.length) {
+        listProjects().forEach(summary => {
+            const stored = getProject(summary.id);
+            if (stored) projects.push(stored.project);
+        });
+    }
+    if (errors.length === 0 && projects.length === 0) errors.push('No projects to combine');
+    if (projects.length > MAX_PORTFOLIO_PROJECTS) errors.push(`At most ${MAX_PORTFOLIO_PROJECTS} projects fit in one portfolio (got ${projects.length})`);
+    return { projects, errors };
+};
+
+export const portfolioRoutes = express.Router();
+
+// Body: { projectIds?: string[], projects?: ProjectData[], capacities?: { [team]: number } }
+portfolioRoutes.post('/workbook', async (req, res) => {
+    const { projectIds, projects: definitions, capacities } = req.body || {};
+    const { projects, errors } = resolvePortfolioProjects(
+        Array.isArray(projectIds) ? projectIds : undefined,
+        Array.isArray(definitions) ? definitions : undefined,
+    );
+    if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid portfolio', errors });
+        return;
+    }
+    try {
+        const { buffer, load } = await generatePortfolioWorkbook(projects, capacities && typeof capacities === 'object' && !Array.isArray(capacities) ? capacities : {});
+        res.attachment(PORTFOLIO_FILE_NAME);
+        res.setHeader('X-Over-Allocations', String(load.overAllocations.length));
+        res.send(Buffer.from(buffer as ArrayBuffer));
+    } catch (error) {
+        console.error('Portfolio generation failed:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Portfolio generation failed' });
+    }
+});
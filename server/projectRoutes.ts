@@ -0,0 +1,134 @@
+import express from 'express';
+import { ActualDataItem, ProjectData } from '../src/types/production';
+import { generateExcelFile, getPlanFileName } from '../src/utils/excelGenerator';
+import { formatFormulaIssues, validateProjectFormulas } from '../src/utils/formulaValidator';
+import { parseProjectData, parseProjectDraft } from '../src/utils/projectSchema';
+import {
+    appendActuals,
+    createProject,
+    deleteProject,
+    getActuals,
+    getProject,
+    getRevisionWorkbook,
+    listProjects,
+    listRevisions,
+    saveRevision,
+    updateProject,
+} from './projectStore';
+
+// Hand-written requests get the same checks as the model's definitions, and are stored normalised
+const checkProject = (body: unknown): { project?: ProjectData; errors: string[] } => {
+    const parsed = parseProjectData(body);
+    if (parsed.errors) return { errors: parsed.errors };
+    return { project: parsed.project, errors: formatFormulaIssues(validateProjectFormulas(parsed.project).errors) };
+};
+
+// Dates end up as yyyy-MM-dd and actuals as numbers, the keys every other reader of the table expects
+const checkActuals = (body: unknown): { items?: ActualDataItem[]; errors: string[] } => {
+    const items = Array.isArray(body) ? body : (body as { actuals?: unknown } | null)?.actuals;
+    if (!Array.isArray(items) || items.length === 0) return { errors: ['Expected a non-empty array of actuals, each with a date, name and actual'] };
+    const { project, errors } = parseProjectDraft({ actualData: items });
+    return errors.length > 0 ? { errors } : { items: project.actualData || [], errors };
+};
+
+export const projectRoutes = express.Router();
+
+projectRoutes.get('/', (_req, res) => {
+    res.json(listProjects());
+});
+
+projectRoutes.post('/', (req, res) => {
+    const { project, errors } = checkProject(req.body);
+    if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid project definition', errors });
+        return;
+    }
+    res.status(201).json(createProject(project!));
+});
+
+projectRoutes.get('/:id', (req, res) => {
+    const stored = getProject(req.params.id);
+    if (!stored) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+    }
+    res.json(stored);
+});
+
+projectRoutes.put('/:id', (req, res) => {
+    const { project, errors } = checkProject(req.body);
+    if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid project definition', errors });
+        return;
+    }
+    const stored = updateProject(req.params.id, project!);
+    if (!stored) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+    }
+    res.json(stored);
+});
+
+projectRoutes.delete('/:id', (req, res) => {
+    res.status(deleteProject(req.params.id) ? 204 : 404).end();
+});
+
+projectRoutes.get('/:id/actuals', (req, res) => {
+    if (!getProject(req.params.id)) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+    }
+    res.json(getActuals(req.params.id));
+});
+
+// Rows with the same date and resource replace the stored ones
+projectRoutes.post('/:id/actuals', (req, res) => {
+    if (!getProject(req.params.id)) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+    }
+    const { items, errors } = checkActuals(req.body);
+    if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid actuals', errors });
+        return;
+    }
+    res.json({ written: appendActuals(req.params.id, items!) });
+});
+
+projectRoutes.get('/:id/revisions', (req, res) => {
+    if (!getProject(req.params.id)) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+    }
+    res.json(listRevisions(req.params.id));
+});
+
+projectRoutes.get('/:id/revisions/:revision/workbook', (req, res) => {
+    const stored = getRevisionWorkbook(req.params.id, Number(req.params.revision));
+    if (!stored) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+    }
+    // Sets the .xlsx Content-Type, and quotes or encodes the file name in Content-Disposition
+    res.attachment(stored.fileName);
+    res.send(stored.workbook);
+});
+
+// Builds a fresh workbook from the stored definition and actuals, keeps it as a new revision and returns it
+projectRoutes.post('/:id/workbook', async (req, res) => {
+    const stored = getProject(req.params.id);
+    if (!stored) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+    }
+    try {
+        const buffer = await generateExcelFile(stored.project);
+        const revision = saveRevision(stored.id, stored.project, getPlanFileName(stored.project), buffer as ArrayBuffer);
+        res.attachment(revision.fileName);
+        res.setHeader('X-Project-Revision', String(revision.revision));
+        res.send(Buffer.from(buffer as ArrayBuffer));
+    } catch (error) {
+        console.error('Workbook generation failed:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Workbook generation failed' });
+    }
+});
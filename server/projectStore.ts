@@ -0,0 +1,259 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ProjectRevisionInfo, ProjectSummary, StoredProject } from '../src/types/agent';
+import { ActualDataItem, PlanTemplate, ProjectData } from '../src/types/production';
+
+// Durable projects: each definition, every generated workbook revision, and all actuals rows. Also the
+// plan templates users save.
+
+const DEFAULT_DB_PATH = path.resolve(process.cwd(), 'data', 'projects.db');
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        definition TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS project_revisions (
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        revision INTEGER NOT NULL,
+        definition TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        workbook BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (project_id, revision)
+    );
+    CREATE TABLE IF NOT EXISTS actuals (
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        date TEXT NOT NULL,
+        name TEXT NOT NULL,
+        actual REAL, -- NULL when the source cell was blank
+        extra TEXT, -- JSON of the other dailyColumns values
+        PRIMARY KEY (project_id, date, name)
+    );
+    CREATE TABLE IF NOT EXISTS templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        definition TEXT NOT NULL, -- JSON of the template without id, name and createdAt
+        created_at TEXT NOT NULL
+    );
+`;
+
+interface ProjectRow {
+    id: string;
+    name: string;
+    definition: string;
+    created_at: string;
+    updated_at: string;
+}
+
+interface ActualRow {
+    date: string;
+    name: string;
+    actual: number | null;
+    extra: string | null;
+}
+
+let db: Database.Database | null = null;
+
+const getDb = () => {
+    if (!db) {
+        const file = process.env.PROJECT_DB_PATH || DEFAULT_DB_PATH;
+        if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+        db = new Database(file);
+        db.pragma('journal_mode = WAL');
+        db.pragma('foreign_keys = ON');
+        db.exec(SCHEMA);
+    }
+    return db;
+};
+
+const now = () => new Date().toISOString();
+
+// Actuals are stored in their own table, so the definition column never carries them
+const toDefinition = (project: ProjectData): string => {
+    const { actualData, ...definition } = project;
+    return JSON.stringify(definition);
+};
+
+const toActualItem = (row: ActualRow): ActualDataItem => ({
+    ...(row.extra ? JSON.parse(row.extra) : {}),
+    date: row.date,
+    name: row.name,
+    actual: row.actual,
+});
+
+export const getActuals = (projectId: string): ActualDataItem[] =>
+    (getDb().prepare('SELECT date, name, actual, extra FROM actuals WHERE project_id = ? ORDER BY date, name').all(projectId) as ActualRow[])
+        .map(toActualItem);
+
+export const listProjects = (): ProjectSummary[] => {
+    const rows = getDb().prepare(`
+        SELECT p.*,
+            (SELECT COUNT(*) FROM actuals a WHERE a.project_id = p.id) AS actual_count,
+            (SELECT COUNT(*) FROM project_revisions r WHERE r.project_id = p.id) AS revision_count
+        FROM projects p ORDER BY p.updated_at DESC
+    `).all() as (ProjectRow & { actual_count: number; revision_count: number })[];
+    return rows.map(row => {
+        const definition = JSON.parse(row.definition) as ProjectData;
+        return {
+            id: row.id,
+            name: row.name,
+            goal: definition.goal,
+            unit: definition.unit,
+            startDate: definition.startDate,
+            endDate: definition.endDate,
+            actualCount: row.actual_count,
+            revisionCount: row.revision_count,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    });
+};
+
+/**
+ * Returns the definition with every stored actual in actualData, ready for generateExcelFile.
+ */
+export const getProject = (id: string): StoredProject | null => {
+    const row = getDb().prepare('SELECT * FROM projects WHERE id = ?').get(id) as ProjectRow | undefined;
+    if (!row) return null;
+    const actuals = getActuals(id);
+    return {
+        id: row.id,
+        project: { ...JSON.parse(row.definition), ...(actuals.length > 0 ? { actualData: actuals } : {}) },
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+};
+
+/**
+ * Looks a project up by id, or else by name (ignoring case), taking the most recently updated on a tie.
+ */
+export const findProject = (idOrName: string): StoredProject | null => {
+    const byId = getProject(idOrName);
+    if (byId) return byId;
+    const row = getDb().prepare('SELECT id FROM projects WHERE lower(name) = lower(?) ORDER BY updated_at DESC LIMIT 1').get(idOrName.trim()) as { id: string } | undefined;
+    return row ? getProject(row.id) : null;
+};
+
+/**
+ * Inserts or replaces actuals by date and resource; returns how many rows were written.
+ */
+export const appendActuals = (projectId: string, items: ActualDataItem[]): number => {
+    const database = getDb();
+    const upsert = database.prepare(`
+        INSERT INTO actuals (project_id, date, name, actual, extra) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (project_id, date, name) DO UPDATE SET actual = excluded.actual, extra = excluded.extra
+    `);
+    const touch = database.prepare('UPDATE projects SET updated_at = ? WHERE id = ?');
+    return database.transaction(() => {
+        let written = 0;
+        items.forEach(({ date, name, actual, ...extra }) => {
+            if (!date || !name) return;
+            upsert.run(projectId, date, name, actual === null || actual === undefined ? null : Number(actual) || 0, Object.keys(extra).length > 0 ? JSON.stringify(extra) : null);
+            written++;
+        });
+        if (written > 0) touch.run(now(), projectId);
+        return written;
+    })();
+};
+
+export const createProject = (project: ProjectData): StoredProject => {
+    const id = randomUUID();
+    const timestamp = now();
+    getDb().transaction(() => {
+        getDb().prepare('INSERT INTO projects (id, name, definition, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+            .run(id, project.name, toDefinition(project), timestamp, timestamp);
+        appendActuals(id, project.actualData || []);
+    })();
+    return getProject(id)!;
+};
+
+/**
+ * Replaces the definition. Actuals in the update are merged into the stored ones rather than replacing them.
+ */
+export const updateProject = (id: string, project: ProjectData): StoredProject | null => {
+    const result = getDb().transaction(() => {
+        const changed = getDb().prepare('UPDATE projects SET name = ?, definition = ?, updated_at = ? WHERE id = ?')
+            .run(project.name, toDefinition(project), now(), id);
+        if (changed.changes > 0) appendActuals(id, project.actualData || []);
+        return changed.changes;
+    })();
+    return result > 0 ? getProject(id) : null;
+};
+
+/**
+ * Saves the user's confirmed actuals-name aliases on the project without touching the rest of its definition.
+ */
+export const updateResourceAliases = (id: string, aliases: Record<string, string>): boolean => {
+    const row = getDb().prepare('SELECT definition FROM projects WHERE id = ?').get(id) as { definition: string } | undefined;
+    if (!row) return false;
+    const definition = { ...JSON.parse(row.definition), resourceAliases: aliases };
+    getDb().prepare('UPDATE projects SET definition = ?, updated_at = ? WHERE id = ?').run(JSON.stringify(definition), now(), id);
+    return true;
+};
+
+export const deleteProject = (id: string): boolean =>
+    getDb().prepare('DELETE FROM projects WHERE id = ?').run(id).changes > 0;
+
+export const saveRevision = (projectId: string, project: ProjectData, fileName: string, workbook: ArrayBuffer | Uint8Array): ProjectRevisionInfo => {
+    const database = getDb();
+    const createdAt = now();
+    const revision = database.transaction(() => {
+        const { next } = database.prepare('SELECT COALESCE(MAX(revision), 0) + 1 AS next FROM project_revisions WHERE project_id = ?')
+            .get(projectId) as { next: number };
+        database.prepare('INSERT INTO project_revisions (project_id, revision, definition, file_name, workbook, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+            .run(projectId, next, toDefinition(project), fileName, Buffer.from(workbook as ArrayBuffer), createdAt);
+        return next;
+    })();
+    return { revision, fileName, createdAt };
+};
+
+export const listRevisions = (projectId: string): ProjectRevisionInfo[] =>
+    (getDb().prepare('SELECT revision, file_name, created_at FROM project_revisions WHERE project_id = ? ORDER BY revision DESC')
+        .all(projectId) as { revision: number; file_name: string; created_at: string }[])
+        .map(row => ({ revision: row.revision, fileName: row.file_name, createdAt: row.created_at }));
+
+export const getRevisionWorkbook = (projectId: string, revision: number): { fileName: string; workbook: Buffer } | null => {
+    const row = getDb().prepare('SELECT file_name, workbook FROM project_revisions WHERE project_id = ? AND revision = ?')
+        .get(projectId, revision) as { file_name: string; workbook: Buffer } | undefined;
+    return row ? { fileName: row.file_name, workbook: row.workbook } : null;
+};
+
+interface TemplateRow {
+    id: string;
+    name: string;
+    definition: string;
+    created_at: string;
+}
+
+const toTemplate = (row: TemplateRow): PlanTemplate => ({
+    ...JSON.parse(row.definition),
+    id: row.id,
+    name: row.name,
+    builtIn: false,
+    createdAt: row.created_at,
+});
+
+export const listSavedTemplates = (): PlanTemplate[] =>
+    (getDb().prepare('SELECT * FROM templates ORDER BY name').all() as TemplateRow[]).map(toTemplate);
+
+export const getSavedTemplate = (id: string): PlanTemplate | null => {
+    const row = getDb().prepare('SELECT * FROM templates WHERE id = ?').get(id) as TemplateRow | undefined;
+    return row ? toTemplate(row) : null;
+};
+
+export const saveTemplate = (template: Omit<PlanTemplate, 'id' | 'builtIn' | 'createdAt'>): PlanTemplate => {
+    const id = randomUUID();
+    const { name, ...definition } = template;
+    getDb().prepare('INSERT INTO templates (id, name, definition, created_at) VALUES (?, ?, ?, ?)')
+        .run(id, name, JSON.stringify(definition), now());
+    return getSavedTemplate(id)!;
+};
+
+export const deleteTemplate = (id: string): boolean =>
+    getDb().prepare('DELETE FROM templates WHERE id = ?').run(id).changes > 0;
@@ -0,0 +1,54 @@
+import { FunctionCall, GoogleGenAI, Part } from '@google/genai';
+import { AGENT_MODEL } from '../agent';
+import { LLMProvider, MessagePart, ToolCall } from './types';
+
+const toGeminiPart = (part: MessagePart): Part => {
+    if ('text' in part) return { text: part.text };
+    if ('image' in part) return { inlineData: { data: part.image.data, mimeType: part.image.mimeType } };
+    return { functionResponse: { id: part.toolResult.id, name: part.toolResult.name, response: part.toolResult.response } };
+};
+
+const toToolCall = (call: FunctionCall): ToolCall => ({ id: call.id, name: call.name || '', args: call.args || {} });
+
+export const createGeminiProvider = (apiKey: string | undefined, model = AGENT_MODEL): LLMProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+        createChat: ({ systemInstruction, tools }) => {
+            const config = { systemInstruction, tools: [{ functionDeclarations: tools }] };
+            const chat = ai.chats.create({ model, config });
+            return {
+                sendMessage: async (parts) => {
+                    const result = await chat.sendMessage({ message: parts.map(toGeminiPart) });
+                    return { text: result.text || '', toolCalls: (result.functionCalls || []).map(toToolCall) };
+                },
+                sendMessageStream: async (parts, { onText, onToolCall, signal }) => {
+                    // Per-request config replaces the chat config, so the tools have to be passed again
+                    const stream = await chat.sendMessageStream({
+                        message: parts.map(toGeminiPart),
+                        config: { ...config, abortSignal: signal },
+                    });
+                    let text = '';
+                    const toolCalls: ToolCall[] = [];
+                    for await (const chunk of stream) {
+                        signal?.throwIfAborted();
+                        // Gemini sends each function call whole, in the chunk where it appears
+                        chunk.candidates?.[0]?.content?.parts?.forEach(part => {
+                            if (part.text && !part.thought) {
+                                text += part.text;
+                                onText?.(part.text);
+                            }
+                            if (part.functionCall) {
+                                const call = toToolCall(part.functionCall);
+                                toolCalls.push(call);
+                                onToolCall?.(call);
+                            }
+                        });
+                    }
+                    return { text, toolCalls };
+                },
+            };
+        },
+    };
+};
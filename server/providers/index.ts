@@ -0,0 +1,28 @@
+import { AGENT_MODEL } from '../agent';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai';
+import { createStubProvider, loadStubFixture } from './stub';
+import { LLMProvider } from './types';
+
+export type { ChatOptions, LLMProvider, MessagePart, ProviderChat, ProviderReply, StreamHandlers, ToolCall } from './types';
+
+export type ProviderName = 'gemini' | 'openai' | 'stub';
+
+/**
+ * Picks the model backend from LLM_PROVIDER (gemini by default).
+ */
+export const createProvider = (env: NodeJS.ProcessEnv = process.env): LLMProvider => {
+    const name = (env.LLM_PROVIDER || 'gemini').toLowerCase() as ProviderName;
+    switch (name) {
+        case 'gemini':
+            if (!env.GEMINI_API_KEY) throw new Error('GEMINI_API_KEY is not set');
+            return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || AGENT_MODEL);
+        case 'openai':
+            if (!env.OPENAI_BASE_URL || !env.OPENAI_MODEL) throw new Error('OPENAI_BASE_URL and OPENAI_MODEL must be set');
+            return createOpenAICompatibleProvider({ baseUrl: env.OPENAI_BASE_URL, model: env.OPENAI_MODEL, apiKey: env.OPENAI_API_KEY });
+        case 'stub':
+            return createStubProvider(loadStubFixture(env.STUB_FIXTURE || 'basic-plan'));
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected gemini, openai or stub)`);
+    }
+};
@@ -0,0 +1,169 @@
+import { Schema } from '@google/genai';
+import { LLMProvider, MessagePart, ProviderReply, ToolCall } from './types';
+
+// Works with any server exposing the OpenAI chat completions API (Ollama, LM Studio, vLLM, llama.cpp …)
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string; // e.g. http://localhost:11434/v1
+    model: string;
+    apiKey?: string;
+}
+
+interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+    | { role: 'system'; content: string }
+    | { role: 'user'; content: string | { type: string; [key: string]: unknown }[] }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+/**
+ * Gemini schemas use upper-case type names ("OBJECT"); JSON Schema wants lower case.
+ */
+export const toJsonSchema = (schema: Schema | undefined): Record<string, unknown> => {
+    if (!schema) return { type: 'object', properties: {} };
+    const result: Record<string, unknown> = {};
+    if (schema.type) result.type = String(schema.type).toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.required) result.required = schema.required;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    }
+    return result;
+};
+
+// Local models often cut arguments short or send broken JSON; the call is kept with the reason so the model can retry it
+const parseToolCall = (call: OpenAIToolCall): ToolCall => {
+    const base = { id: call.id, name: call.function.name };
+    if (typeof call.function.arguments !== 'string') return { ...base, args: call.function.arguments || {} };
+    try {
+        const args = JSON.parse(call.function.arguments || '{}');
+        if (args && typeof args === 'object' && !Array.isArray(args)) return { ...base, args };
+        return { ...base, args: {}, argsError: 'The arguments must be a JSON object.' };
+    } catch (error) {
+        return { ...base, args: {}, argsError: `The arguments are not valid JSON (${error instanceof Error ? error.message : error}).` };
+    }
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => ({
+    name: 'openai',
+    createChat: ({ systemInstruction, tools }) => {
+        const messages: OpenAIMessage[] = [{ role: 'system', content: systemInstruction }];
+        const openTools = tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) },
+        }));
+        let unansweredCalls: ToolCall[] = [];
+
+        const pushParts = (parts: MessagePart[]) => {
+            const toolResults = parts.flatMap(part => 'toolResult' in part ? [part.toolResult] : []);
+            toolResults.forEach(result => {
+                const call = unansweredCalls.find(c => c.id === result.id) || unansweredCalls.find(c => c.name === result.name);
+                unansweredCalls = unansweredCalls.filter(c => c !== call);
+                messages.push({ role: 'tool', tool_call_id: call?.id || result.id || result.name, content: JSON.stringify(result.response) });
+            });
+            // The API rejects a new user turn while tool calls are still open
+            unansweredCalls.forEach(call => messages.push({ role: 'tool', tool_call_id: call.id!, content: JSON.stringify({ status: 'ok' }) }));
+            unansweredCalls = [];
+
+            const text = parts.flatMap(part => 'text' in part ? [part.text] : []).join('\n');
+            const images = parts.flatMap(part => 'image' in part ? [part.image] : []);
+            if (images.length > 0) {
+                messages.push({
+                    role: 'user',
+                    content: [
+                        { type: 'text', text },
+                        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+                    ],
+                });
+            } else if (text) {
+                messages.push({ role: 'user', content: text });
+            }
+        };
+
+        const post = async (stream: boolean, signal?: AbortSignal) => {
+            const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+                },
+                body: JSON.stringify({ model: config.model, messages, tools: openTools, stream }),
+                signal,
+            });
+            if (!response.ok) throw new Error(`Model server returned ${response.status}: ${await response.text()}`);
+            return response;
+        };
+
+        // Records the assistant turn so the next request carries the full history
+        const finishReply = (content: string, rawCalls: OpenAIToolCall[]): ProviderReply => {
+            const toolCalls = rawCalls.map(parseToolCall);
+            messages.push({ role: 'assistant', content: content || null, ...(rawCalls.length > 0 ? { tool_calls: rawCalls } : {}) });
+            unansweredCalls = toolCalls;
+            return { text: content, toolCalls };
+        };
+
+        return {
+            sendMessage: async (parts) => {
+                pushParts(parts);
+                const data = await (await post(false)).json();
+                const message = data.choices?.[0]?.message || {};
+                return finishReply(message.content || '', message.tool_calls || []);
+            },
+            sendMessageStream: async (parts, { onText, onToolCall, signal }) => {
+                pushParts(parts);
+                const response = await post(true, signal);
+                if (!response.body) throw new Error('Model server returned an empty stream');
+
+                let text = '';
+                const rawCalls: OpenAIToolCall[] = [];
+                // Tool call arguments arrive in fragments; a call is complete once the next one starts or the stream ends
+                const completeCall = (index: number) => {
+                    if (rawCalls[index]) onToolCall?.(parseToolCall(rawCalls[index]));
+                };
+
+                const reader = response.body.getReader();
+                const decoder = new TextDecoder();
+                let pending = '';
+                let finished = false;
+                while (!finished) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    pending += decoder.decode(value, { stream: true });
+                    const lines = pending.split('\n');
+                    pending = lines.pop() || '';
+                    for (const line of lines) {
+                        if (!line.startsWith('data:')) continue;
+                        const payload = line.slice(5).trim();
+                        if (payload === '[DONE]') {
+                            finished = true;
+                            break;
+                        }
+                        const delta = JSON.parse(payload).choices?.[0]?.delta || {};
+                        if (delta.content) {
+                            text += delta.content;
+                            onText?.(delta.content);
+                        }
+                        (delta.tool_calls || []).forEach((fragment: any) => {
+                            const index = fragment.index ?? rawCalls.length;
+                            if (!rawCalls[index]) {
+                                completeCall(index - 1);
+                                rawCalls[index] = { id: fragment.id || `call_${index}`, type: 'function', function: { name: '', arguments: '' } };
+                            }
+                            if (fragment.function?.name) rawCalls[index].function.name += fragment.function.name;
+                            if (fragment.function?.arguments) rawCalls[index].function.arguments += fragment.function.arguments;
+                        });
+                    }
+                }
+                completeCall(rawCalls.length - 1);
+                return finishReply(text, rawCalls);
+            },
+        };
+    },
+});
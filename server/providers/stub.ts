@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LLMProvider, MessagePart, ProviderReply, ToolCall } from './types';
+
+// Replays a scripted conversation so the agent loop can run offline and deterministically.
+
+export interface StubTurn {
+    expect?: string; // Optional substring the incoming user text must contain
+    reply: { text?: string; toolCalls?: ToolCall[] };
+}
+
+export interface StubFixture {
+    turns: StubTurn[];
+}
+
+export const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export const loadStubFixture = (nameOrPath: string): StubFixture => {
+    const file = nameOrPath.endsWith('.json') ? path.resolve(nameOrPath) : path.join(FIXTURES_DIR, `${nameOrPath}.json`);
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as StubFixture;
+    if (!Array.isArray(fixture.turns)) throw new Error(`Stub fixture ${file} has no turns`);
+    return fixture;
+};
+
+const describeParts = (parts: MessagePart[]) =>
+    parts.map(part => 'text' in part ? part.text : 'toolResult' in part ? JSON.stringify(part.toolResult.response) : '').join('\n');
+
+export const createStubProvider = (fixture: StubFixture): LLMProvider => ({
+    name: 'stub',
+    // Every chat replays the fixture from the first turn
+    createChat: () => {
+        let position = 0;
+        const nextReply = (parts: MessagePart[]): ProviderReply => {
+            const turn = fixture.turns[position];
+            if (!turn) return { text: 'The scripted conversation has ended.', toolCalls: [] };
+            const incoming = describeParts(parts);
+            if (turn.expect && !incoming.includes(turn.expect)) {
+                throw new Error(`Stub turn ${position + 1} expected a message containing "${turn.expect}"`);
+            }
+            position++;
+            return {
+                text: turn.reply.text || '',
+                toolCalls: (turn.reply.toolCalls || []).map((call, i) => ({ ...call, id: call.id || `stub-${position}-${i}` })),
+            };
+        };
+
+        return {
+            sendMessage: async (parts) => nextReply(parts),
+            sendMessageStream: async (parts, { onText, onToolCall, signal }) => {
+                const reply = nextReply(parts);
+                // Word-sized chunks, yielding between them so a stop request can land mid-reply
+                for (const chunk of reply.text.match(/\S+\s*|\s+/g) || []) {
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                    signal?.throwIfAborted();
+                    onText?.(chunk);
+                }
+                reply.toolCalls.forEach(call => onToolCall?.(call));
+                return reply;
+            },
+        };
+    },
+});
@@ -0,0 +1,43 @@
+import { FunctionDeclaration } from '@google/genai';
+
+export interface ToolCall {
+    id?: string;
+    name: string;
+    args: Record<string, any>;
+    argsError?: string; // Why the arguments could not be read (e.g. truncated JSON); args is empty then
+}
+
+export type MessagePart =
+    | { text: string }
+    | { image: { data: string; mimeType: string } } // Base64 without the data: prefix
+    | { toolResult: { id?: string; name: string; response: Record<string, unknown> } };
+
+export interface ProviderReply {
+    text: string;
+    toolCalls: ToolCall[];
+}
+
+export interface ChatOptions {
+    systemInstruction: string;
+    tools: FunctionDeclaration[]; // Gemini-style declarations are the canonical tool schema
+}
+
+export interface StreamHandlers {
+    onText?: (chunk: string) => void;
+    onToolCall?: (call: ToolCall) => void; // Called as soon as a tool call is complete, before the reply ends
+    signal?: AbortSignal;
+}
+
+/**
+ * One conversation with the model. Implementations keep their own history.
+ */
+export interface ProviderChat {
+    sendMessage(parts: MessagePart[]): Promise<ProviderReply>;
+    // Resolves with the whole reply once the stream ends
+    sendMessageStream(parts: MessagePart[], handlers: StreamHandlers): Promise<ProviderReply>;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    createChat(options: ChatOptions): ProviderChat;
+}
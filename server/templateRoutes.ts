@@ -0,0 +1,64 @@
+import express from 'express';
+import { PlanTemplate, ProjectData } from '../src/types/production';
+import { formatFormulaIssues, validateProjectFormulas } from '../src/utils/formulaValidator';
+import { findTemplateIn, mergeTemplates, templateFromProject } from '../src/utils/planTemplates';
+import { parseProjectData } from '../src/utils/projectSchema';
+import { deleteTemplate, getProject, listSavedTemplates, saveTemplate } from './projectStore';
+
+export const listTemplates = (): PlanTemplate[] => mergeTemplates(listSavedTemplates());
+
+export const findTemplate = (ref: string): PlanTemplate | undefined => findTemplateIn(listTemplates(), ref);
+
+/**
+ * Saves a project's column architecture under a new name. The layout must be complete and its formulas valid.
+ */
+export const createTemplate = (project: Partial<ProjectData>, name: string, description?: string): { template?: PlanTemplate; errors: string[] } => {
+    const definition = templateFromProject(project, String(name ?? ''), description ? String(description) : '');
+    const errors: string[] = [];
+    if (!definition.name) errors.push('A template needs a name');
+    else if (findTemplate(definition.name)) errors.push(`A template named "${definition.name}" already exists`);
+    if (definition.dailyColumns.length === 0) errors.push('The project has no dailyColumns to save');
+    if (definition.columns.length === 0) errors.push('The project has no plan columns to save');
+    if (errors.length === 0) errors.push(...formatFormulaIssues(validateProjectFormulas(project as ProjectData).errors));
+    return errors.length > 0 ? { errors } : { template: saveTemplate(definition), errors };
+};
+
+export const templateRoutes = express.Router();
+
+templateRoutes.get('/', (_req, res) => {
+    res.json(listTemplates());
+});
+
+// Body: { name, description?, projectId? | project? } — the template is the project's layout
+templateRoutes.post('/', (req, res) => {
+    const { name, description, projectId, project: definition } = req.body || {};
+    let project: ProjectData | undefined;
+    if (projectId) {
+        project = getProject(String(projectId))?.project;
+        if (!project) {
+            res.status(404).json({ error: 'Project not found' });
+            return;
+        }
+    } else {
+        const parsed = parseProjectData(definition);
+        if (parsed.errors) {
+            res.status(400).json({ error: 'Invalid project definition', errors: parsed.errors });
+            return;
+        }
+        project = parsed.project;
+    }
+    const { template, errors } = createTemplate(project, name, description);
+    if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid template', errors });
+        return;
+    }
+    res.status(201).json(template);
+});
+
+templateRoutes.delete('/:id', (req, res) => {
+    if (findTemplate(req.params.id)?.builtIn) {
+        res.status(400).json({ error: 'Built-in templates cannot be deleted' });
+        return;
+    }
+    res.status(deleteTemplate(req.params.id) ? 204 : 404).end();
+});
@@ -6,9 +6,12 @@ import {
   Download,
   User as UserIcon,
   FileSpreadsheet,
+  LayoutTemplate,
   Loader2,
   Paperclip,
   Send,
+  Square,
+  AlertTriangle,
   X,
   FileText,
   History,
@@ -16,42 +19,84 @@ import {
   Moon,
   Sun,
 } from "lucide-react";
-import { GoogleGenAI, Type } from "@google/genai";
 import ReactMarkdown from "react-markdown";
 
 // Modular Imports
 import {
+  ColumnMapping,
   Message,
+  PlanTemplate,
   ProjectData,
-  ActualDataItem,
   FileAttachment,
+  SourceTable,
 } from "../types/production";
-import { generateExcelFile } from "../utils/excelGenerator";
-import { handleFileProcessing } from "../utils/fileHandlers";
+import { AgentEvent, ChatRequest } from "../types/agent";
+import { getPlanFileName } from "../utils/excelGenerator";
+import { handleFileProcessing, sheetAttachment } from "../utils/fileHandlers";
+import { describeMergedActuals } from "../utils/actualsMerge";
+import {
+  applyColumnMapping,
+  describeColumnMapping,
+  describeImportIssues,
+  guessColumnMapping,
+  hasMappableColumns,
+  loadSavedMapping,
+  saveColumnMapping,
+} from "../utils/columnMapping";
+import {
+  ResourceAliasSuggestion,
+  describeUnassignedActuals,
+  reconcileActuals,
+  reconcileProjectActuals,
+} from "../utils/resourceMatching";
+import { getResourceNames } from "../utils/resources";
+import {
+  ChatSessionNotFoundError,
+  base64ToArrayBuffer,
+  createChatSession,
+  deleteChatSession,
+  saveImportedPlan,
+  sendChatMessage,
+} from "../services/agentApi";
+import {
+  StorageUsage,
+  deleteStoredSession,
+  getStorageUsage,
+  isQuotaError,
+  loadSessions,
+  requestPersistentStorage,
+  saveSession,
+} from "../services/sessionStore";
 import ChatHistorySidebar, {
   ChatSession,
-  loadSessions,
-  saveSessions,
   generateSessionTitle,
 } from "./chat/ChatHistorySidebar";
+import ColumnMappingDialog from "./chat/ColumnMappingDialog";
+import ResourceAliasDialog from "./chat/ResourceAliasDialog";
+import SheetPickerDialog from "./chat/SheetPickerDialog";
+import TemplatePickerDialog from "./chat/TemplatePickerDialog";
 
-const ai = new GoogleGenAI({
-  apiKey: import.meta.env.VITE_GEMINI_API_KEY || "",
-});
 // Removed DEFAULT_MESSAGE
 export default function ProductionPlanMaker() {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string>("");
   const [showSidebar, setShowSidebar] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
-  const [uploadedData, setUploadedData] = useState<ActualDataItem[] | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
-  const [currentFile, setCurrentFile] = useState<FileAttachment | null>(null);
+  const [agentStatus, setAgentStatus] = useState<string | null>(null);
+  const [currentFiles, setCurrentFiles] = useState<FileAttachment[]>([]);
   const [currentProject, setCurrentProject] = useState<Partial<ProjectData> | null>(null);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Uploads waiting on a dialog, handled one at a time so several files can be dropped together
+  const [pendingSheets, setPendingSheets] = useState<FileAttachment[]>([]);
+  const [pendingMappings, setPendingMappings] = useState<{ attachment: FileAttachment; mapping: ColumnMapping }[]>([]);
+  const [pendingAliases, setPendingAliases] = useState<{ attachment: FileAttachment; suggestions: ResourceAliasSuggestion[] }[]>([]);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
   const [previewImage, setPreviewImage] = useState<{ url: string; name: string } | null>(null);
   const [isDark, setIsDark] = useState(() => localStorage.getItem("theme") === "dark");
 
@@ -66,163 +111,66 @@ export default function ProductionPlanMaker() {
   }, [isDark]);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const chatRef = useRef<any>(null);
+  const chatSessionRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const streamIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const deletedSessionsRef = useRef<Set<string>>(new Set());
 
-  const initChat = () => {
-    const today = new Date().toLocaleDateString('en-CA'); // Gets YYYY-MM-DD in local time
-
-    chatRef.current = ai.chats.create({
-      model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: `You are a professional Production Planning Assistant. 
-          Your goal is to collect the following information from the user to generate an Excel production plan:
-          1. Project Name
-          2. Overall Goal (numeric value)
-          3. Unit of measurement (e.g., units, hours, revenue)
-          4. Start Date (YYYY-MM-DD)
-          5. End Date (YYYY-MM-DD)
-          6. List of Resources/Teams
-          
-          CURRENT DATE CONTEXT: Today's date is \${today}. If the user uses relative dates like "today", "tomorrow", "yesterday", "next Monday", or "in 2 weeks", you MUST calculate and use the exact YYYY-MM-DD based on this current date.
-          
-          The user may also provide 'actual' production data points (Date, Name, Actual value) directly in the chat or via file upload.
-          If they provide it in text, extract it into the 'actualData' parameter.
-          
-          DYNAMIC SCHEMA ANALYSIS:
-          Based on the project type and unit, you must suggest a set of columns for the production plan. 
-          
-          1. DAILY KEY COLUMNS: Define raw data tracked per resource per day. 
-             - ALWAYS include 'Target' and 'Actual'.
-             - Add others like 'Duration', 'Ops', or 'Variance'.
-             - You can provide formulas for calculated fields (e.g., Variance: G{rowIndex}-F{rowIndex}).
-          2. PLAN COLUMNS: Define daily summaries in the main plan (e.g., 'Total Target', 'Actual Ops').
-          3. PIVOT COLUMNS: Define weekly/monthly aggregations (e.g., 'Total Actual', 'Avg Variance').
-          4. DASHBOARD METRICS: Define high-level KPIs (e.g., 'Overall Goal', '% Completion').
-          
-          TABLE & COLUMN NAMES:
-          - The raw data table is named 'DailyProductionTable'.
-          - Base columns in 'DailyProductionTable' are: [Date (A), Day (B), Week (C), Month (D), Name (E)].
-          - Your 'dailyColumns' start at Column F (Index 6).
-          - Use these names and letters EXACTLY in your formulas.
-          
-          For every PLAN, PIVOT, and DASHBOARD item, you MUST provide an Excel formula that references the 'DailyProductionTable'.
-          Use {rowIndex} for relative row references in Plan/Pivot.
-          
-          You MUST suggest this full architecture to the user and confirm it before generation.
-          
-          IMPORTANT: You are a specialized Production Plan Agent. You must ONLY respond to queries related to production planning, project scheduling, and Excel generation for these plans. 
-          If a user asks about unrelated topics (e.g., weather, general knowledge, jokes, other software), politely decline and redirect them back to production planning.
-          
-          Once you have the core project details (1-6) and have confirmed the full 4-sheet architecture, call the 'generate_production_plan' tool.
-          Be conversational and helpful within your domain. If information is missing, ask for it.`,
-        tools: [
-          {
-            functionDeclarations: [
-              {
-                name: "generate_production_plan",
-                description:
-                  "Generates the production planning Excel file once core project details and column structure are confirmed.",
-                parameters: {
-                  type: Type.OBJECT,
-                  properties: {
-                    name: { type: Type.STRING, description: "The name of the project" },
-                    goal: { type: Type.NUMBER, description: "The total numeric goal" },
-                    unit: { type: Type.STRING, description: "The unit of measurement (e.g., 'units', 'hours')" },
-                    startDate: { type: Type.STRING, description: "Start date in YYYY-MM-DD format" },
-                    endDate: { type: Type.STRING, description: "End date in YYYY-MM-DD format" },
-                    resources: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of names of teams or individuals" },
-                    columns: {
-                      type: Type.ARRAY,
-                      items: {
-                        type: Type.OBJECT,
-                        properties: {
-                          header: { type: Type.STRING, description: "The display name of the column" },
-                          key: { type: Type.STRING, description: "A unique key for the column" },
-                          section: { type: Type.STRING, enum: ["Target", "Actual", "Accumulative"], description: "Which section the column belongs to" },
-                          formula: { type: Type.STRING, description: "Excel formula referencing DailyProductionTable. Use {rowIndex} for the current row." },
-                        },
-                        required: ["header", "key", "section", "formula"],
-                      },
-                    },
-                    dailyColumns: {
-                      type: Type.ARRAY,
-                      items: {
-                        type: Type.OBJECT,
-                        properties: {
-                          header: { type: Type.STRING },
-                          key: { type: Type.STRING },
-                          formula: { type: Type.STRING },
-                        },
-                        required: ["header", "key"],
-                      },
-                    },
-                    pivotColumns: {
-                      type: Type.ARRAY,
-                      items: {
-                        type: Type.OBJECT,
-                        properties: {
-                          header: { type: Type.STRING },
-                          formula: { type: Type.STRING },
-                        },
-                        required: ["header", "formula"],
-                      },
-                    },
-                    dashboardMetrics: {
-                      type: Type.ARRAY,
-                      items: {
-                        type: Type.OBJECT,
-                        properties: {
-                          label: { type: Type.STRING },
-                          formula: { type: Type.STRING },
-                          format: { type: Type.STRING },
-                        },
-                        required: ["label", "formula"],
-                      },
-                    },
-                    actualData: {
-                      type: Type.ARRAY,
-                      items: {
-                        type: Type.OBJECT,
-                        properties: {
-                          date: { type: Type.STRING },
-                          name: { type: Type.STRING },
-                          actual: { type: Type.NUMBER },
-                        },
-                        required: ["date", "name", "actual"],
-                      },
-                    },
-                  },
-                  required: ["name", "goal", "unit", "startDate", "endDate", "resources", "columns"],
-                },
-              },
-            ],
-          },
-        ],
-      },
-    });
+  // The agent (and its API key) lives on the server; the UI only holds a session id
+  const ensureChatSession = async () => {
+    if (!chatSessionRef.current) chatSessionRef.current = await createChatSession();
+    return chatSessionRef.current;
+  };
+
+  const resetChatSession = () => {
+    if (chatSessionRef.current) deleteChatSession(chatSessionRef.current);
+    chatSessionRef.current = null;
+  };
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
   };
 
-  // Initialize Gemini Chat
+  const persistSession = (session: ChatSession) => {
+    saveSession(session)
+      .then(() => setStorageError(null))
+      .catch((error) => {
+        console.error("Failed to save chat history:", error);
+        setStorageError(
+          isQuotaError(error)
+            ? "Browser storage is full. Delete old chats to keep saving history."
+            : "Chat history could not be saved.",
+        );
+      });
+  };
+
+  // Load sessions on mount (moving any history left in localStorage into IndexedDB)
   useEffect(() => {
-    if (!chatRef.current) initChat();
+    loadSessions()
+      .catch((error) => {
+        console.error("Failed to load chat history:", error);
+        setStorageError("Chat history could not be loaded.");
+        return [] as ChatSession[];
+      })
+      .then((stored) => {
+        if (stored.length > 0) {
+          setSessions(stored);
+          const last = stored[stored.length - 1];
+          setActiveSessionId(last.id);
+          setMessages(last.messages);
+          setCurrentProjectId(last.projectId || null);
+        } else {
+          setActiveSessionId(Date.now().toString());
+        }
+        refreshStorageUsage();
+      });
+    requestPersistentStorage().catch(() => false);
   }, []);
 
-  // Load sessions on mount
   useEffect(() => {
-    const stored = loadSessions();
-    if (stored.length > 0) {
-      setSessions(stored);
-      const last = stored[stored.length - 1];
-      setActiveSessionId(last.id);
-      setMessages(last.messages);
-    } else {
-      setActiveSessionId(Date.now().toString());
-    }
-  }, []);
+    if (showSidebar) refreshStorageUsage();
+  }, [showSidebar]);
 
   // Save sessions whenever messages change
   useEffect(() => {
@@ -233,15 +181,28 @@ export default function ProductionPlanMaker() {
       let updated: ChatSession[];
       if (exists) {
         updated = filtered.map((s) =>
-          s.id === activeSessionId ? { ...s, messages, title: generateSessionTitle(messages) } : s,
+          s.id === activeSessionId
+            ? { ...s, messages, title: generateSessionTitle(messages), projectId: currentProjectId || undefined }
+            : s,
         );
       } else {
-        updated = [...filtered, { id: activeSessionId, title: generateSessionTitle(messages), createdAt: new Date().toISOString(), messages }];
+        updated = [
+          ...filtered,
+          {
+            id: activeSessionId,
+            title: generateSessionTitle(messages),
+            createdAt: new Date().toISOString(),
+            messages,
+            projectId: currentProjectId || undefined,
+          },
+        ];
       }
-      saveSessions(updated);
+      // Only the active session changed, so only it is written
+      const active = updated.find((s) => s.id === activeSessionId);
+      if (active && !deletedSessionsRef.current.has(active.id)) persistSession(active);
       return updated;
     });
-  }, [messages, activeSessionId]);
+  }, [messages, activeSessionId, currentProjectId]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -254,9 +215,7 @@ export default function ProductionPlanMaker() {
   }, []);
 
   useEffect(() => {
-    return () => {
-      if (streamIntervalRef.current) clearInterval(streamIntervalRef.current);
-    };
+    return () => abortControllerRef.current?.abort();
   }, []);
 
   useEffect(() => {
@@ -266,138 +225,281 @@ export default function ProductionPlanMaker() {
     }
   }, [inputValue]);
 
-  const typewriterEffect = (fullText: string, msgId: string) => {
-    let i = 0;
-    setIsStreaming(true);
-    if (streamIntervalRef.current) clearInterval(streamIntervalRef.current);
-    streamIntervalRef.current = setInterval(() => {
-      i += 5;
-      setMessages((prev) =>
-        prev.map((m) => (m.id === msgId ? { ...m, content: fullText.slice(0, i) } : m)),
+  // Cancels the in-flight reply; whatever has streamed so far stays in the chat
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const refreshImportedPlan = async (attachment: Partial<FileAttachment>) => {
+    const projectData = attachment.importedPlan!;
+    // Stored like any generated plan, and the conversation moves to that project rather than overwriting the one open
+    const { projectId, buffer } = await saveImportedPlan(projectData);
+    setCurrentProject(projectData);
+    setCurrentProjectId(projectId);
+    const actualCount = projectData.actualData?.length || 0;
+    const unassignedWarning = describeUnassignedActuals(reconcileProjectActuals(projectData).unassigned);
+
+    const userMsg: Message = {
+      id: Date.now().toString(),
+      role: "user",
+      content: `Shared a file: ${attachment.name}`,
+      attachment: { name: attachment.name!, type: attachment.type!, data: attachment.data! },
+    };
+    setMessages((prev) => [
+      ...prev,
+      userMsg,
+      {
+        id: (Date.now() + 1).toString(),
+        role: "agent",
+        content: `I recognised this as the production plan for **${projectData.name}** and restored its setup. I merged **${actualCount}** actual ${actualCount === 1 ? "entry" : "entries"} and refreshed the workbook below. Tell me if you'd like to change anything.${unassignedWarning ? `\n\n${unassignedWarning}` : ""}`,
+        type: "file",
+        fileData: {
+          name: getPlanFileName(projectData),
+          buffer,
+        },
+      },
+    ]);
+  };
+
+  const attachFile = (attachment: FileAttachment) => {
+    // Names that are close to a plan resource wait for the user to confirm them as aliases
+    if (currentProject?.resources && attachment.parsedData?.length) {
+      const { suggestions } = reconcileActuals(
+        attachment.parsedData,
+        getResourceNames(currentProject.resources),
+        currentProject.resourceAliases,
       );
-      if (i >= fullText.length) {
-        if (streamIntervalRef.current) clearInterval(streamIntervalRef.current);
-        streamIntervalRef.current = null;
-        setIsStreaming(false);
+      if (suggestions.length > 0) {
+        setPendingAliases((prev) => [...prev, { attachment, suggestions }]);
+        return;
       }
-    }, 5);
+    }
+    placeFile(attachment);
+  };
+
+  // Remapping an attached file replaces it in place; the order decides which source wins on duplicates
+  const placeFile = (attachment: FileAttachment) => {
+    setCurrentFiles((prev) =>
+      prev.some((f) => f.id === attachment.id)
+        ? prev.map((f) => (f.id === attachment.id ? attachment : f))
+        : [...prev, attachment],
+    );
+  };
+
+  const removeFile = (id: string) => {
+    setCurrentFiles((prev) => prev.filter((f) => f.id !== id));
+  };
+
+  // Confirmed aliases travel with the project on the next message and are saved with it
+  const confirmResourceAliases = (aliases: Record<string, string>) => {
+    const [pending] = pendingAliases;
+    if (!pending) return;
+    if (Object.keys(aliases).length > 0) {
+      setCurrentProject((prev) => ({ ...prev, resourceAliases: { ...prev?.resourceAliases, ...aliases } }));
+    }
+    placeFile(pending.attachment);
+    setPendingAliases((prev) => prev.slice(1));
+  };
+
+  const withColumnMapping = (attachment: FileAttachment, mapping: ColumnMapping): FileAttachment => {
+    const { rows, issues } = applyColumnMapping(attachment.table!, mapping);
+    return {
+      ...attachment,
+      columnMapping: mapping,
+      parsedData: rows,
+      importIssues: issues,
+    };
+  };
+
+  const intakeAttachment = (attachment: FileAttachment) => {
+    if (attachment.table && attachment.table.rows.length > 0) {
+      // A layout mapped before (e.g. last week's export) is applied without asking again
+      const saved = loadSavedMapping(attachment.table);
+      if (saved) {
+        attachFile(withColumnMapping(attachment, saved));
+        return;
+      }
+      const mapping = guessColumnMapping(attachment.table, currentProject?.dailyColumns);
+      const isHolidayList = (attachment.holidays?.length || 0) > 0 && !hasMappableColumns(mapping);
+      if (!isHolidayList) {
+        setPendingMappings((prev) => [...prev, { attachment, mapping }]);
+        return;
+      }
+    }
+    attachFile(attachment);
   };
 
   const processFile = async (file: File) => {
     try {
       const processed = await handleFileProcessing(file);
-      setFileName(processed.name!);
-      if (processed.parsedData) setUploadedData(processed.parsedData);
-      setCurrentFile(processed as FileAttachment);
+      if (processed.importedPlan) {
+        await refreshImportedPlan(processed);
+        return;
+      }
+      const attachment = { ...processed, id: crypto.randomUUID() } as FileAttachment;
+      if (attachment.sheets) {
+        setPendingSheets((prev) => [...prev, attachment]);
+        return;
+      }
+      intakeAttachment(attachment);
     } catch (error) {
       alert(error instanceof Error ? error.message : "Error processing file.");
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    await processFile(file);
-    e.target.value = "";
+  const processFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files || [])) await processFile(file);
   };
 
-  const handleSendMessage = async () => {
-    if ((!inputValue.trim() && !currentFile) || isTyping || isStreaming) return;
+  // Each chosen sheet becomes its own source with its own column mapping
+  const confirmSheets = (sheets: SourceTable[]) => {
+    const [pending] = pendingSheets;
+    if (!pending) return;
+    sheets.forEach((table, index) => intakeAttachment(sheetAttachment(pending, table, index === 0)));
+    setPendingSheets((prev) => prev.slice(1));
+  };
 
-    const contextPreamble = currentProject
-      ? `[CURRENT PROJECT STATE: Name="${currentProject.name || "?"}", Goal=${currentProject.goal || "?"}, Unit="${currentProject.unit || "?"}", Dates=${currentProject.startDate || "?"}/${currentProject.endDate || "?"}, Resources=${currentProject.resources?.join(",") || "?"}]\n`
-      : "";
+  const confirmColumnMapping = (mapping: ColumnMapping, remember: boolean) => {
+    const [pending] = pendingMappings;
+    if (!pending) return;
+    if (remember) saveColumnMapping(pending.attachment.table!, mapping);
+    attachFile(withColumnMapping(pending.attachment, mapping));
+    setPendingMappings((prev) => prev.slice(1));
+  };
 
-    const fileMetadata = currentFile?.metadata || "";
-    const fullPrompt = `${contextPreamble}${inputValue}${fileMetadata}`;
+  // Skipping keeps the file with the best-guess actuals read on upload
+  const skipColumnMapping = () => {
+    const [pending] = pendingMappings;
+    if (pending) attachFile(pending.attachment);
+    setPendingMappings((prev) => prev.slice(1));
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    await processFiles(input.files);
+    input.value = "";
+  };
 
+  // With a template, the message starts a new plan from it instead of sending what was typed
+  const handleSendMessage = async (template?: PlanTemplate) => {
+    const text = template ? `Start from the "${template.name}" template.` : inputValue;
+    if ((!text.trim() && currentFiles.length === 0) || isTyping || isStreaming) return;
+
+    // Sheets picked from one workbook share its upload; the message shows it once
+    const uploads = Array.from(new Set(currentFiles.map((f) => f.file)));
+    const [firstFile] = currentFiles;
     const userMsg: Message = {
       id: Date.now().toString(),
       role: "user",
       content:
-        inputValue ||
-        (currentFile
-          ? `Shared ${currentFile.type.startsWith("image/") ? "an image" : "a file"}: ${currentFile.name}`
+        text ||
+        (firstFile
+          ? `Shared ${uploads.length > 1 ? `${uploads.length} files` : firstFile.type.startsWith("image/") ? "an image" : "a file"}: ${currentFiles.map((f) => f.name).join(", ")}`
           : ""),
-      attachment: currentFile
-        ? { name: currentFile.name, type: currentFile.type, data: currentFile.data }
+      attachment: uploads.length === 1
+        ? { name: uploads[0].name, type: firstFile.type, data: firstFile.data }
         : undefined,
     };
 
+    const mergeNote = describeMergedActuals(currentFiles.map((f) => f.parsedData || []));
+    const request: ChatRequest = {
+      text,
+      attachments: currentFiles.map((f, index) => ({
+        name: f.name,
+        type: f.type,
+        data: f.type.startsWith("image/") ? f.data : undefined,
+        // The mapping is described at send time so remapping doesn't stack notes
+        metadata: (f.columnMapping
+          ? (f.metadata || "")
+            + describeColumnMapping(f.columnMapping, currentProject?.dailyColumns)
+            + describeImportIssues(f.importIssues || [])
+          : f.metadata || "") + (index === currentFiles.length - 1 ? mergeNote : ""),
+        parsedData: f.parsedData,
+        holidays: f.holidays,
+        table: f.table,
+      })),
+      project: template ? null : currentProject,
+      projectId: template ? null : currentProjectId,
+      templateId: template?.id,
+    };
+
     setMessages((prev) => [...prev, userMsg]);
-    setInputValue("");
-    setCurrentFile(null);
-    setFileName(null);
+    if (template) {
+      setCurrentProject(null);
+      setCurrentProjectId(null);
+    } else {
+      setInputValue("");
+    }
+    setCurrentFiles([]);
     setIsTyping(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-    try {
-      if (!chatRef.current) initChat();
-
-      let result;
-      if (userMsg.attachment && userMsg.attachment.type.startsWith("image/")) {
-        const base64Data = userMsg.attachment.data.split(",")[1];
-        result = await chatRef.current!.sendMessage({
-          message: [
-            { text: fullPrompt },
-            { inlineData: { data: base64Data, mimeType: userMsg.attachment.type } },
-          ],
-        });
+    // Text chunks append to the current agent message; a file starts a new one that its caption streams into
+    let agentMsgId: string | null = null;
+    const appendText = (text: string) => {
+      setIsTyping(false);
+      setIsStreaming(true);
+      if (!agentMsgId) {
+        const msgId = `${Date.now()}-agent`;
+        agentMsgId = msgId;
+        setMessages((prev) => [...prev, { id: msgId, role: "agent", content: text }]);
       } else {
-        result = await chatRef.current!.sendMessage({ message: fullPrompt });
+        const msgId = agentMsgId;
+        setMessages((prev) => prev.map((m) => (m.id === msgId ? { ...m, content: m.content + text } : m)));
       }
+    };
+    const handleEvent = (event: AgentEvent) => {
+      if (event.type === "text") {
+        appendText(event.text);
+      } else if (event.type === "status") {
+        setAgentStatus(event.message);
+        setIsTyping(true);
+      } else if (event.type === "project") {
+        setCurrentProject(event.project);
+        if (event.projectId) setCurrentProjectId(event.projectId);
+      } else if (event.type === "patch") {
+        // Edited but not yet rendered; later messages send this definition back to the agent
+        setCurrentProject(event.project);
+      } else if (event.type === "file") {
+        agentMsgId = `${Date.now()}-file`;
+        const fileMessage: Message = {
+          id: agentMsgId,
+          role: "agent",
+          content: "",
+          type: "file",
+          fileData: { name: event.name, buffer: base64ToArrayBuffer(event.data) },
+        };
+        setMessages((prev) => [...prev, fileMessage]);
+        setAgentStatus(null);
+        setIsTyping(false);
+      } else if (event.type === "error") {
+        agentMsgId = null;
+        appendText(event.message);
+        agentMsgId = null;
+      }
+    };
 
-      const functionCalls = result?.functionCalls;
-      if (functionCalls && functionCalls.length > 0) {
-        for (const call of functionCalls) {
-          if (call.name === "generate_production_plan") {
-            const projectData = call.args as ProjectData;
-            setCurrentProject(projectData);
-
-            const combinedActualData = [...(projectData.actualData || [])];
-            if (uploadedData) {
-              uploadedData.forEach((upItem) => {
-                const exists = combinedActualData.some(
-                  (c) => c.date === upItem.date && c.name === upItem.name,
-                );
-                if (!exists) combinedActualData.push(upItem);
-              });
-            }
-            projectData.actualData = combinedActualData.length > 0 ? combinedActualData : undefined;
-            const buffer = await generateExcelFile(projectData);
-
-            const msgId = Date.now().toString();
-            const successText = `I've generated the production plan for **${projectData.name}**. You can download it below.`;
-            setMessages((prev) => [
-              ...prev,
-              {
-                id: msgId,
-                role: "agent",
-                content: "",
-                type: "file",
-                fileData: {
-                  name: `${projectData.name.replace(/\s+/g, "_")}_Production_Planning.xlsx`,
-                  buffer: buffer,
-                },
-              },
-            ]);
-            typewriterEffect(successText, msgId);
-          }
-        }
-      } else {
-        const textResponse =
-          result?.text ||
-          "I'm sorry, I didn't quite get that. Could you please provide more details about your project?";
-        const msgId = Date.now().toString();
-        setMessages((prev) => [...prev, { id: msgId, role: "agent", content: "" }]);
-        typewriterEffect(textResponse, msgId);
+    try {
+      try {
+        await sendChatMessage(await ensureChatSession(), request, handleEvent, controller.signal);
+      } catch (error) {
+        // The server may have restarted and forgotten the session
+        if (!(error instanceof ChatSessionNotFoundError)) throw error;
+        chatSessionRef.current = null;
+        await sendChatMessage(await ensureChatSession(), request, handleEvent, controller.signal);
       }
     } catch (error) {
-      console.error("Gemini Error:", error);
-      const msgId = Date.now().toString();
-      setMessages((prev) => [...prev, { id: msgId, role: "agent", content: "" }]);
-      typewriterEffect("I'm having a bit of trouble connecting to my brain. Could you try again?", msgId);
+      if (!controller.signal.aborted) {
+        console.error("Agent Error:", error);
+        agentMsgId = null;
+        appendText("I'm having a bit of trouble connecting to my brain. Could you try again?");
+      }
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
       setIsTyping(false);
+      setIsStreaming(false);
+      setAgentStatus(null);
     }
   };
 
@@ -425,56 +527,48 @@ export default function ProductionPlanMaker() {
   };
 
   const resetChat = () => {
-    if (streamIntervalRef.current) clearInterval(streamIntervalRef.current);
-    setIsStreaming(false);
+    abortControllerRef.current?.abort();
     setMessages([]);
-    setUploadedData(null);
-    setFileName(null);
+    setCurrentFiles([]);
     setCurrentProject(null);
-    initChat();
+    setCurrentProjectId(null);
+    resetChatSession();
   };
 
   const startNewSession = () => {
-    if (streamIntervalRef.current) clearInterval(streamIntervalRef.current);
-    setIsStreaming(false);
+    abortControllerRef.current?.abort();
     const newId = Date.now().toString();
     setSessions((prev) => {
-      const updated = [...prev, { id: newId, title: "New Chat", createdAt: new Date().toISOString(), messages: [] }];
-      saveSessions(updated);
-      return updated;
+      const session: ChatSession = { id: newId, title: "New Chat", createdAt: new Date().toISOString(), messages: [] };
+      persistSession(session);
+      return [...prev, session];
     });
     setActiveSessionId(newId);
     setMessages([]);
-    setUploadedData(null);
-    setFileName(null);
-    setCurrentFile(null);
+    setCurrentFiles([]);
     setCurrentProject(null);
-    chatRef.current = null;
+    setCurrentProjectId(null);
+    resetChatSession();
     setShowSidebar(false);
-    initChat();
   };
 
   const loadSession = (session: ChatSession) => {
-    if (streamIntervalRef.current) clearInterval(streamIntervalRef.current);
-    setIsStreaming(false);
+    abortControllerRef.current?.abort();
     setActiveSessionId(session.id);
     setMessages(session.messages);
-    setUploadedData(null);
-    setFileName(null);
-    setCurrentFile(null);
+    setCurrentFiles([]);
     setCurrentProject(null);
-    chatRef.current = null;
+    setCurrentProjectId(session.projectId || null);
+    resetChatSession();
     setShowSidebar(false);
-    initChat();
   };
 
   const handleDeleteSession = (sessionId: string) => {
     deletedSessionsRef.current.add(sessionId);
-    setSessions((prev) => {
-      const updated = prev.filter((s) => s.id !== sessionId);
-      saveSessions(updated);
-      return updated;
-    });
+    setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    deleteStoredSession(sessionId)
+      .then(refreshStorageUsage)
+      .catch((error) => console.error("Failed to delete chat history:", error));
     if (sessionId === activeSessionId) {
       const remaining = sessions.filter((s) => s.id !== sessionId);
       if (remaining.length > 0) {
@@ -496,8 +590,7 @@ export default function ProductionPlanMaker() {
       onDrop={async (e) => {
         e.preventDefault();
         setIsDragging(false);
-        const file = e.dataTransfer.files?.[0];
-        if (file) await processFile(file);
+        await processFiles(e.dataTransfer.files);
       }}
     >
       {/* ── Sidebar ── */}
@@ -508,6 +601,8 @@ export default function ProductionPlanMaker() {
         onNewSession={startNewSession}
         onLoadSession={loadSession}
         onDeleteSession={handleDeleteSession}
+        storageUsage={storageUsage}
+        storageError={storageError}
       />
 
       {/* ── Main Chat ── */}
@@ -646,7 +741,7 @@ export default function ProductionPlanMaker() {
                 </div>
 
                 {/* Download Section */}
-                {msg.type === "file" && msg.fileData && !isStreaming && (
+                {msg.type === "file" && msg.fileData && (
                   <button
                     onClick={() => handleDownload(msg.fileData!.name, msg.fileData!.buffer)}
                     className="flex items-center gap-3 p-4 rounded-xl w-full transition-opacity text-left hover:opacity-90"
@@ -674,7 +769,7 @@ export default function ProductionPlanMaker() {
               </div>
               <div className="p-4 rounded-2xl shadow-sm flex items-center gap-2" style={{ backgroundColor: isDark ? "#27272a" : "#ffffff", border: isDark ? "1px solid #3f3f46" : "1px solid #e5e0d5" }}>
                 <Loader2 className="w-4 h-4 animate-spin" style={{ color: "#046241" }} />
-                <span className="text-sm" style={{ color: isDark ? "#f4f4f5" : "#133020" }}>Agent is analyzing...</span>
+                <span className="text-sm" style={{ color: isDark ? "#f4f4f5" : "#133020" }}>{agentStatus || "Agent is analyzing..."}</span>
               </div>
             </div>
           )}
@@ -693,19 +788,56 @@ export default function ProductionPlanMaker() {
             </h2>
           )}
           <div className={`w-full max-w-4xl p-2 rounded-3xl shadow-2xl space-y-3 backdrop-blur-xl pointer-events-auto border transition-colors duration-300 ${isDark ? 'bg-zinc-800/60 border-white/10' : 'bg-white/50 border-white/50'}`}>
-            {fileName && (
-              <div className="flex items-center justify-between px-3 py-2 rounded-lg" style={{ backgroundColor: "#ffffff", border: "1px solid #FFC370" }}>
-                <div className="flex items-center gap-2 text-sm" style={{ color: "#046241" }}>
-                  <Paperclip className="w-4 h-4" />
-                  <span className="font-medium truncate max-w-[200px]">{fileName}</span>
-                </div>
-                <button
-                  onClick={() => { setFileName(null); setUploadedData(null); setCurrentFile(null); }}
-                  className="hover:opacity-70"
-                  style={{ color: "#FFB347" }}
-                >
-                  <X className="w-4 h-4" />
-                </button>
+            {currentFiles.length > 0 && (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {currentFiles.map((attachment) => (
+                  <div
+                    key={attachment.id}
+                    className="flex items-center justify-between px-3 py-2 rounded-lg"
+                    style={{ backgroundColor: "#ffffff", border: "1px solid #FFC370" }}
+                  >
+                    <div className="flex items-center gap-2 text-sm min-w-0" style={{ color: "#046241" }}>
+                      <Paperclip className="w-4 h-4 flex-shrink-0" />
+                      <span className="font-medium truncate max-w-[200px]">{attachment.name}</span>
+                      {attachment.table && attachment.table.rows.length > 0 && (
+                        <button
+                          onClick={() =>
+                            setPendingMappings((prev) => [
+                              ...prev,
+                              {
+                                attachment,
+                                mapping: attachment.columnMapping || guessColumnMapping(attachment.table!, currentProject?.dailyColumns),
+                              },
+                            ])
+                          }
+                          className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full hover:opacity-80 flex-shrink-0"
+                          style={
+                            attachment.importIssues?.length
+                              ? { backgroundColor: "#FFC370", color: "#133020" }
+                              : { border: "1px solid #e5e0d5", color: "#046241" }
+                          }
+                          title="Review column mapping"
+                        >
+                          {attachment.importIssues?.length ? (
+                            <>
+                              <AlertTriangle className="w-3 h-3" />
+                              {attachment.importIssues.length} to review
+                            </>
+                          ) : (
+                            "Columns"
+                          )}
+                        </button>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => removeFile(attachment.id)}
+                      className="hover:opacity-70"
+                      style={{ color: "#FFB347" }}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
               </div>
             )}
 
@@ -718,10 +850,20 @@ export default function ProductionPlanMaker() {
               >
                 <Paperclip className="w-5 h-5" />
               </button>
+              <button
+                onClick={() => setShowTemplatePicker(true)}
+                disabled={isTyping || isStreaming}
+                className="p-3 mb-0.5 -ml-2 rounded-xl transition-opacity hover:opacity-70 disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ color: "#046241" }}
+                title="Start from a template"
+              >
+                <LayoutTemplate className="w-5 h-5" />
+              </button>
               <input
                 type="file"
                 ref={fileInputRef}
                 onChange={handleFileUpload}
+                multiple
                 accept=".csv, .xlsx, .xls, .pdf, .docx, .doc, .pptx, .ppt, .txt, .md, .json, image/*"
                 className="hidden"
               />
@@ -736,18 +878,78 @@ export default function ProductionPlanMaker() {
                 className={`flex-1 px-4 py-3 rounded-xl outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed resize-none overflow-y-auto max-h-[200px] backdrop-blur-sm ${isDark ? 'bg-zinc-900/40 text-gray-100 placeholder-zinc-500' : 'bg-white/60 text-[#133020]'}`}
                 style={{ border: isDark ? "1px solid rgba(255,255,255,0.1)" : "1px solid rgba(229, 224, 213, 0.5)" }}
               />
-              <button
-                onClick={handleSendMessage}
-                disabled={(!inputValue.trim() && !currentFile) || isTyping || isStreaming}
-                className="p-3 mb-0.5 rounded-xl transition-opacity shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-white"
-                style={{ backgroundColor: "#046241" }}
-              >
-                <Send className="w-5 h-5" />
-              </button>
+              {isTyping || isStreaming ? (
+                <button
+                  onClick={stopGenerating}
+                  className="p-3 mb-0.5 rounded-xl transition-opacity shadow-sm text-white hover:opacity-90"
+                  style={{ backgroundColor: "#133020" }}
+                  title="Stop generating"
+                >
+                  <Square className="w-5 h-5 fill-current" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleSendMessage()}
+                  disabled={!inputValue.trim() && currentFiles.length === 0}
+                  className="p-3 mb-0.5 rounded-xl transition-opacity shadow-sm disabled:opacity-50 disabled:cursor-not-allowed text-white"
+                  style={{ backgroundColor: "#046241" }}
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
             </div>
           </div>
         </div>
 
+        {/* Sheet Picker, then Column Mapping, then Resource Alias dialogs; one at a time */}
+        {pendingSheets.length > 0 && (
+          <SheetPickerDialog
+            key={pendingSheets[0].id}
+            fileName={pendingSheets[0].name}
+            sheets={pendingSheets[0].sheets!}
+            itemLabel={/\.(pdf|docx)$/i.test(pendingSheets[0].file.name) ? "table" : "sheet"}
+            isDark={isDark}
+            onConfirm={confirmSheets}
+            onCancel={() => setPendingSheets((prev) => prev.slice(1))}
+          />
+        )}
+
+        {pendingSheets.length === 0 && pendingMappings.length > 0 && (
+          <ColumnMappingDialog
+            key={pendingMappings[0].attachment.id}
+            fileName={pendingMappings[0].attachment.name}
+            table={pendingMappings[0].attachment.table!}
+            initialMapping={pendingMappings[0].mapping}
+            dailyColumns={currentProject?.dailyColumns || []}
+            isDark={isDark}
+            onConfirm={confirmColumnMapping}
+            onCancel={skipColumnMapping}
+          />
+        )}
+
+        {pendingSheets.length === 0 && pendingMappings.length === 0 && pendingAliases.length > 0 && (
+          <ResourceAliasDialog
+            key={pendingAliases[0].attachment.id}
+            fileName={pendingAliases[0].attachment.name}
+            suggestions={pendingAliases[0].suggestions}
+            resourceNames={getResourceNames(currentProject?.resources)}
+            isDark={isDark}
+            onConfirm={confirmResourceAliases}
+            onCancel={() => confirmResourceAliases({})}
+          />
+        )}
+
+        {showTemplatePicker && (
+          <TemplatePickerDialog
+            isDark={isDark}
+            onConfirm={(template) => {
+              setShowTemplatePicker(false);
+              handleSendMessage(template);
+            }}
+            onCancel={() => setShowTemplatePicker(false)}
+          />
+        )}
+
         {/* Image Preview Modal */}
         {previewImage && (
           <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -1,47 +1,9 @@
 import React from 'react';
-import { Plus, Trash2 } from 'lucide-react';
+import { HardDrive, Plus, Trash2 } from 'lucide-react';
+import { ChatSession, Message } from '../../types/production';
+import { StorageUsage } from '../../services/sessionStore';
 
-export interface Message {
-    id: string;
-    role: 'agent' | 'user';
-    content: string;
-    type?: 'text' | 'file';
-    fileData?: {
-        name: string;
-        buffer: any;
-    };
-}
-
-export interface ChatSession {
-    id: string;
-    title: string;
-    createdAt: string;
-    messages: Message[];
-}
-
-export const STORAGE_KEY = 'productionPlanChatHistory';
-
-export const loadSessions = (): ChatSession[] => {
-    try {
-        const raw = localStorage.getItem(STORAGE_KEY);
-        if (!raw) return [];
-        const sessions: ChatSession[] = JSON.parse(raw);
-        return sessions.map(s => ({
-            ...s,
-            messages: s.messages.map(m => ({ ...m, fileData: undefined }))
-        }));
-    } catch { return []; }
-};
-
-export const saveSessions = (sessions: ChatSession[]) => {
-    try {
-        const stripped = sessions.map(s => ({
-            ...s,
-            messages: s.messages.map(m => ({ ...m, fileData: undefined }))
-        }));
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(stripped));
-    } catch { }
-};
+export type { ChatSession };
 
 export const generateSessionTitle = (messages: Message[]): string => {
     const firstUser = messages.find(m => m.role === 'user');
@@ -56,8 +18,22 @@ interface ChatHistorySidebarProps {
     onNewSession: () => void;
     onLoadSession: (session: ChatSession) => void;
     onDeleteSession: (sessionId: string) => void;
+    storageUsage?: StorageUsage | null;
+    storageError?: string | null;
 }
 
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
 export default function ChatHistorySidebar({
     sessions,
     activeSessionId,
@@ -65,7 +41,11 @@ export default function ChatHistorySidebar({
     onNewSession,
     onLoadSession,
     onDeleteSession,
+    storageUsage,
+    storageError,
 }: ChatHistorySidebarProps) {
+    const usedShare = storageUsage?.quota ? Math.min(storageUsage.used / storageUsage.quota, 1) : 0;
+
     return (
         <div
             className="flex flex-col transition-all duration-300 overflow-hidden flex-shrink-0"
@@ -114,7 +94,6 @@ export default function ChatHistorySidebar({
                                     type="button"
                                     onClick={(e) => {
                                         e.stopPropagation();
-                                        console.log('delete clicked', session.id);
                                         onDeleteSession(session.id);
                                     }}
                                     className="opacity-0 group-hover:opacity-100 transition-opacity p-1 rounded"
@@ -125,6 +104,34 @@ export default function ChatHistorySidebar({
                             </div>
                         ))}
                     </div>
+
+                    {/* Storage Usage */}
+                    {(storageUsage || storageError) && (
+                        <div className="p-3 flex-shrink-0 space-y-1.5" style={{ borderTop: '1px solid #046241' }}>
+                            {storageUsage && (
+                                <>
+                                    <div className="flex items-center gap-1.5 text-xs" style={{ color: '#FFC370' }}>
+                                        <HardDrive className="w-3 h-3" />
+                                        <span>
+                                            {formatBytes(storageUsage.used)}
+                                            {storageUsage.quota ? ` of ${formatBytes(storageUsage.quota)}` : ''} used
+                                        </span>
+                                    </div>
+                                    {storageUsage.quota > 0 && (
+                                        <div className="h-1 rounded-full overflow-hidden" style={{ backgroundColor: 'rgba(255,255,255,0.1)' }}>
+                                            <div
+                                                className="h-full rounded-full"
+                                                style={{ width: `${Math.max(usedShare * 100, 1)}%`, backgroundColor: usedShare > 0.9 ? '#FFB347' : '#FFC370' }}
+                                            />
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                            {storageError && (
+                                <p className="text-xs" style={{ color: '#FFB347' }}>{storageError}</p>
+                            )}
+                        </div>
+                    )}
                 </>
             )}
         </div>
@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Columns3, X } from 'lucide-react';
+import { ColumnMapping, DailyColumn, DateOrder, SourceTable } from '../../types/production';
+import { applyColumnMapping } from '../../utils/columnMapping';
+
+interface ColumnMappingDialogProps {
+    fileName: string;
+    table: SourceTable;
+    initialMapping: ColumnMapping;
+    dailyColumns: DailyColumn[]; // Extra manual columns of the current project
+    isDark: boolean;
+    onConfirm: (mapping: ColumnMapping, remember: boolean) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const REVIEW_ROWS = 50;
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+    DMY: 'Day first (25/03/2025)',
+    MDY: 'Month first (03/25/2025)',
+    YMD: 'Year first (2025/03/25)',
+};
+
+export default function ColumnMappingDialog({
+    fileName,
+    table,
+    initialMapping,
+    dailyColumns,
+    isDark,
+    onConfirm,
+    onCancel,
+}: ColumnMappingDialogProps) {
+    const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+    const [remember, setRemember] = useState(true);
+
+    const { rows: preview, issues, dateOrder, dateOrderDetected } = useMemo(() => applyColumnMapping(table, mapping), [table, mapping]);
+    const extraColumns = dailyColumns.filter(col => !col.formula && !['date', 'name', 'actual', 'target'].includes(col.key.toLowerCase()));
+    const canConfirm = !!(mapping.date && mapping.resource);
+
+    const fields: { label: string; value?: string; onChange: (header?: string) => void; required?: boolean }[] = [
+        { label: 'Date', value: mapping.date, onChange: header => setMapping(m => ({ ...m, date: header })), required: true },
+        { label: 'Resource', value: mapping.resource, onChange: header => setMapping(m => ({ ...m, resource: header })), required: true },
+        { label: 'Actual', value: mapping.actual, onChange: header => setMapping(m => ({ ...m, actual: header })) },
+        ...extraColumns.map(col => ({
+            label: col.header,
+            value: mapping.extra[col.key],
+            onChange: (header?: string) => setMapping(m => {
+                const extra = { ...m.extra };
+                if (header) extra[col.key] = header;
+                else delete extra[col.key];
+                return { ...m, extra };
+            }),
+        })),
+    ];
+
+    const textColor = isDark ? '#f4f4f5' : '#133020';
+    const mutedColor = isDark ? '#a1a1aa' : '#046241';
+    const borderColor = isDark ? '#3f3f46' : '#e5e0d5';
+
+    return (
+        <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div
+                className="w-full max-w-2xl max-h-[90vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden"
+                style={{ backgroundColor: isDark ? '#27272a' : '#ffffff', border: `1px solid ${borderColor}` }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-4" style={{ borderBottom: `1px solid ${borderColor}` }}>
+                    <div className="flex items-center gap-2 min-w-0">
+                        <Columns3 className="w-5 h-5 flex-shrink-0" style={{ color: '#046241' }} />
+                        <div className="min-w-0">
+                            <p className="font-semibold text-sm" style={{ color: textColor }}>Map columns to actuals</p>
+                            <p className="text-xs truncate" style={{ color: mutedColor }}>{fileName}</p>
+                        </div>
+                    </div>
+                    <button onClick={onCancel} className="p-1 rounded-full hover:opacity-70" style={{ color: mutedColor }} title="Skip mapping">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {/* Field selectors */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {fields.map(field => (
+                            <label key={field.label} className="flex flex-col gap-1 text-xs font-medium" style={{ color: textColor }}>
+                                <span>{field.label}{field.required && <span style={{ color: '#FFB347' }}> *</span>}</span>
+                                <select
+                                    value={field.value || ''}
+                                    onChange={e => field.onChange(e.target.value || undefined)}
+                                    className="px-3 py-2 rounded-lg text-sm outline-none"
+                                    style={{ backgroundColor: isDark ? '#18181b' : '#f8f9fa', color: textColor, border: `1px solid ${borderColor}` }}
+                                >
+                                    <option value="">Not mapped</option>
+                                    {table.headers.map(header => (
+                                        <option key={header} value={header}>{header}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+
+                    {/* Date format */}
+                    {mapping.date && (
+                        <label className="flex flex-col gap-1 text-xs font-medium" style={{ color: textColor }}>
+                            <span>Date format</span>
+                            <select
+                                value={mapping.dateOrder || ''}
+                                onChange={e => setMapping(m => ({ ...m, dateOrder: (e.target.value || undefined) as DateOrder | undefined }))}
+                                className="px-3 py-2 rounded-lg text-sm outline-none"
+                                style={{ backgroundColor: isDark ? '#18181b' : '#f8f9fa', color: textColor, border: `1px solid ${borderColor}` }}
+                            >
+                                <option value="">
+                                    Detect automatically ({DATE_ORDER_LABELS[dateOrder]}{dateOrderDetected ? '' : ', from your locale'})
+                                </option>
+                                {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+                                    <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+
+                    {/* Preview */}
+                    <div>
+                        <p className="text-xs font-medium mb-2" style={{ color: mutedColor }}>
+                            Preview: {preview.length} of {table.rows.length} rows will be imported
+                        </p>
+                        <div className="overflow-x-auto rounded-lg" style={{ border: `1px solid ${borderColor}` }}>
+                            <table className="w-full text-xs" style={{ color: textColor }}>
+                                <thead>
+                                    <tr style={{ backgroundColor: isDark ? '#18181b' : '#f8f9fa' }}>
+                                        {fields.map(field => (
+                                            <th key={field.label} className="px-3 py-2 text-left font-semibold whitespace-nowrap">{field.label}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.slice(0, PREVIEW_ROWS).map((item, i) => (
+                                        <tr key={i} style={{ borderTop: `1px solid ${borderColor}` }}>
+                                            <td className="px-3 py-1.5 whitespace-nowrap">{item.date}</td>
+                                            <td className="px-3 py-1.5 whitespace-nowrap">{item.name}</td>
+                                            <td className="px-3 py-1.5 whitespace-nowrap">{item.actual ?? ''}</td>
+                                            {extraColumns.map(col => (
+                                                <td key={col.key} className="px-3 py-1.5 whitespace-nowrap">{String(item[col.key] ?? '')}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                    {preview.length === 0 && (
+                                        <tr>
+                                            <td colSpan={fields.length} className="px-3 py-3 text-center" style={{ color: mutedColor }}>
+                                                Map a date and a resource column to see rows here.
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {/* Review report */}
+                    {issues.length > 0 && (
+                        <div>
+                            <p className="flex items-center gap-1.5 text-xs font-medium mb-2" style={{ color: '#FFB347' }}>
+                                <AlertTriangle className="w-3.5 h-3.5" />
+                                {issues.length} value{issues.length === 1 ? '' : 's'} to review
+                            </p>
+                            <div className="max-h-40 overflow-y-auto rounded-lg text-xs" style={{ border: `1px solid ${borderColor}`, color: textColor }}>
+                                {issues.slice(0, REVIEW_ROWS).map((issue, i) => (
+                                    <div key={i} className="flex gap-3 px-3 py-1.5" style={{ borderTop: i > 0 ? `1px solid ${borderColor}` : undefined }}>
+                                        <span className="whitespace-nowrap font-medium" style={{ color: mutedColor }}>Row {issue.row}</span>
+                                        <span className="whitespace-nowrap">{issue.field}</span>
+                                        <span className="flex-1" style={{ color: issue.severity === 'invalid' ? '#FFB347' : textColor }}>{issue.message}</span>
+                                    </div>
+                                ))}
+                                {issues.length > REVIEW_ROWS && (
+                                    <div className="px-3 py-1.5" style={{ borderTop: `1px solid ${borderColor}`, color: mutedColor }}>
+                                        …and {issues.length - REVIEW_ROWS} more
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between gap-3 p-4" style={{ borderTop: `1px solid ${borderColor}` }}>
+                    <label className="flex items-center gap-2 text-xs cursor-pointer" style={{ color: textColor }}>
+                        <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+                        Remember for files with these columns
+                    </label>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={onCancel}
+                            className="px-4 py-2 rounded-xl text-sm hover:opacity-80"
+                            style={{ color: mutedColor, border: `1px solid ${borderColor}` }}
+                        >
+                            Skip
+                        </button>
+                        <button
+                            onClick={() => onConfirm(mapping, remember)}
+                            disabled={!canConfirm}
+                            className="px-4 py-2 rounded-xl text-sm text-white disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90"
+                            style={{ backgroundColor: '#046241' }}
+                        >
+                            Use mapping
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Users, X } from 'lucide-react';
+import { ResourceAliasSuggestion } from '../../utils/resourceMatching';
+
+interface ResourceAliasDialogProps {
+    fileName: string;
+    suggestions: ResourceAliasSuggestion[];
+    resourceNames: string[];
+    isDark: boolean;
+    onConfirm: (aliases: Record<string, string>) => void;
+    onCancel: () => void;
+}
+
+export default function ResourceAliasDialog({
+    fileName,
+    suggestions,
+    resourceNames,
+    isDark,
+    onConfirm,
+    onCancel,
+}: ResourceAliasDialogProps) {
+    // Alias -> chosen resource; '' leaves the rows unassigned
+    const [choices, setChoices] = useState<Record<string, string>>(
+        () => Object.fromEntries(suggestions.map(s => [s.alias, s.resource])),
+    );
+
+    const confirm = () => {
+        onConfirm(Object.fromEntries(Object.entries(choices).filter(([, resource]) => resource)));
+    };
+
+    const textColor = isDark ? '#f4f4f5' : '#133020';
+    const mutedColor = isDark ? '#a1a1aa' : '#046241';
+    const borderColor = isDark ? '#3f3f46' : '#e5e0d5';
+
+    return (
+        <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div
+                className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden"
+                style={{ backgroundColor: isDark ? '#27272a' : '#ffffff', border: `1px solid ${borderColor}` }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-4" style={{ borderBottom: `1px solid ${borderColor}` }}>
+                    <div className="flex items-center gap-2 min-w-0">
+                        <Users className="w-5 h-5 flex-shrink-0" style={{ color: '#046241' }} />
+                        <div className="min-w-0">
+                            <p className="font-semibold text-sm" style={{ color: textColor }}>Match names to resources</p>
+                            <p className="text-xs truncate" style={{ color: mutedColor }}>{fileName}</p>
+                        </div>
+                    </div>
+                    <button onClick={onCancel} className="p-1 rounded-full hover:opacity-70" style={{ color: mutedColor }} title="Leave all unassigned">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    <p className="text-xs" style={{ color: mutedColor }}>
+                        These names in the file don't match a plan resource exactly. Confirmed matches are remembered for this project;
+                        anything left unassigned goes to the Unassigned sheet.
+                    </p>
+                    {suggestions.map(suggestion => (
+                        <div key={suggestion.alias} className="flex items-center gap-3 text-xs" style={{ color: textColor }}>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium truncate">{suggestion.alias}</p>
+                                <p style={{ color: mutedColor }}>
+                                    {suggestion.rowCount} row{suggestion.rowCount === 1 ? '' : 's'} · {suggestion.reason}
+                                </p>
+                            </div>
+                            <select
+                                value={choices[suggestion.alias] || ''}
+                                onChange={e => setChoices(c => ({ ...c, [suggestion.alias]: e.target.value }))}
+                                className="w-44 px-3 py-2 rounded-lg text-sm outline-none"
+                                style={{ backgroundColor: isDark ? '#18181b' : '#f8f9fa', color: textColor, border: `1px solid ${borderColor}` }}
+                            >
+                                <option value="">Leave unassigned</option>
+                                {resourceNames.map(name => (
+                                    <option key={name} value={name}>{name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-2 p-4" style={{ borderTop: `1px solid ${borderColor}` }}>
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 rounded-xl text-sm hover:opacity-80"
+                        style={{ color: mutedColor, border: `1px solid ${borderColor}` }}
+                    >
+                        Skip
+                    </button>
+                    <button
+                        onClick={confirm}
+                        className="px-4 py-2 rounded-xl text-sm text-white hover:opacity-90"
+                        style={{ backgroundColor: '#046241' }}
+                    >
+                        Save matches
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Sheet, X } from 'lucide-react';
+import { SourceTable } from '../../types/production';
+import { guessColumnMapping, hasMappableColumns } from '../../utils/columnMapping';
+
+interface SheetPickerDialogProps {
+    fileName: string;
+    sheets: SourceTable[];
+    itemLabel?: string; // 'sheet' for workbooks, 'table' for reports
+    isDark: boolean;
+    onConfirm: (sheets: SourceTable[]) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_HEADERS = 6;
+
+export default function SheetPickerDialog({
+    fileName,
+    sheets,
+    itemLabel = 'sheet',
+    isDark,
+    onConfirm,
+    onCancel,
+}: SheetPickerDialogProps) {
+    // Those that look like actuals start selected; summaries and notes sheets don't
+    const [selected, setSelected] = useState<Set<string>>(() => {
+        const likely = sheets.filter(table => hasMappableColumns(guessColumnMapping(table)));
+        return new Set((likely.length > 0 ? likely : sheets).map(table => table.sheet!));
+    });
+
+    const toggle = (sheet: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(sheet)) next.delete(sheet);
+        else next.add(sheet);
+        return next;
+    });
+
+    const textColor = isDark ? '#f4f4f5' : '#133020';
+    const mutedColor = isDark ? '#a1a1aa' : '#046241';
+    const borderColor = isDark ? '#3f3f46' : '#e5e0d5';
+
+    return (
+        <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div
+                className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden"
+                style={{ backgroundColor: isDark ? '#27272a' : '#ffffff', border: `1px solid ${borderColor}` }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-4" style={{ borderBottom: `1px solid ${borderColor}` }}>
+                    <div className="flex items-center gap-2 min-w-0">
+                        <Sheet className="w-5 h-5 flex-shrink-0" style={{ color: '#046241' }} />
+                        <div className="min-w-0">
+                            <p className="font-semibold text-sm" style={{ color: textColor }}>Choose {itemLabel}s to import</p>
+                            <p className="text-xs truncate" style={{ color: mutedColor }}>{fileName}</p>
+                        </div>
+                    </div>
+                    <button onClick={onCancel} className="p-1 rounded-full hover:opacity-70" style={{ color: mutedColor }} title="Don't import this file">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {sheets.map(table => (
+                        <label
+                            key={table.sheet}
+                            className="flex items-start gap-3 px-3 py-2 rounded-lg cursor-pointer text-xs"
+                            style={{ border: `1px solid ${borderColor}`, color: textColor }}
+                        >
+                            <input type="checkbox" className="mt-0.5" checked={selected.has(table.sheet!)} onChange={() => toggle(table.sheet!)} />
+                            <div className="min-w-0">
+                                <p className="font-medium">
+                                    {table.sheet} <span style={{ color: mutedColor }}>· {table.rows.length} row{table.rows.length === 1 ? '' : 's'}</span>
+                                </p>
+                                <p className="truncate" style={{ color: mutedColor }}>
+                                    {table.headers.slice(0, PREVIEW_HEADERS).join(', ')}{table.headers.length > PREVIEW_HEADERS ? ', …' : ''}
+                                </p>
+                            </div>
+                        </label>
+                    ))}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-2 p-4" style={{ borderTop: `1px solid ${borderColor}` }}>
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 rounded-xl text-sm hover:opacity-80"
+                        style={{ color: mutedColor, border: `1px solid ${borderColor}` }}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onConfirm(sheets.filter(table => selected.has(table.sheet!)))}
+                        disabled={selected.size === 0}
+                        className="px-4 py-2 rounded-xl text-sm text-white disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90"
+                        style={{ backgroundColor: '#046241' }}
+                    >
+                        Import {selected.size} {itemLabel}{selected.size === 1 ? '' : 's'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
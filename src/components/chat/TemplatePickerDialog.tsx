@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutTemplate, Loader2, X } from 'lucide-react';
+import { PlanTemplate } from '../../types/production';
+import { listPlanTemplates } from '../../services/agentApi';
+
+interface TemplatePickerDialogProps {
+    isDark: boolean;
+    onConfirm: (template: PlanTemplate) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_HEADERS = 7;
+
+export default function TemplatePickerDialog({ isDark, onConfirm, onCancel }: TemplatePickerDialogProps) {
+    const [templates, setTemplates] = useState<PlanTemplate[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [selected, setSelected] = useState<string | null>(null);
+
+    useEffect(() => {
+        listPlanTemplates()
+            .then(list => {
+                setTemplates(list);
+                setSelected(list[0]?.id ?? null);
+            })
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to load templates'));
+    }, []);
+
+    const textColor = isDark ? '#f4f4f5' : '#133020';
+    const mutedColor = isDark ? '#a1a1aa' : '#046241';
+    const borderColor = isDark ? '#3f3f46' : '#e5e0d5';
+    const chosen = templates?.find(template => template.id === selected);
+
+    return (
+        <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div
+                className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden"
+                style={{ backgroundColor: isDark ? '#27272a' : '#ffffff', border: `1px solid ${borderColor}` }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-4" style={{ borderBottom: `1px solid ${borderColor}` }}>
+                    <div className="flex items-center gap-2 min-w-0">
+                        <LayoutTemplate className="w-5 h-5 flex-shrink-0" style={{ color: '#046241' }} />
+                        <div className="min-w-0">
+                            <p className="font-semibold text-sm" style={{ color: textColor }}>Start from a template</p>
+                            <p className="text-xs truncate" style={{ color: mutedColor }}>The columns are set up for you; the agent asks for the rest</p>
+                        </div>
+                    </div>
+                    <button onClick={onCancel} className="p-1 rounded-full hover:opacity-70" style={{ color: mutedColor }} title="Close">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {error && <p className="text-xs" style={{ color: '#FFB347' }}>{error}</p>}
+                    {!templates && !error && (
+                        <div className="flex items-center gap-2 text-xs" style={{ color: mutedColor }}>
+                            <Loader2 className="w-4 h-4 animate-spin" /> Loading templates...
+                        </div>
+                    )}
+                    {templates?.map(template => (
+                        <label
+                            key={template.id}
+                            className="flex items-start gap-3 px-3 py-2 rounded-lg cursor-pointer text-xs"
+                            style={{ border: `1px solid ${selected === template.id ? '#046241' : borderColor}`, color: textColor }}
+                        >
+                            <input
+                                type="radio"
+                                name="plan-template"
+                                className="mt-0.5"
+                                checked={selected === template.id}
+                                onChange={() => setSelected(template.id)}
+                            />
+                            <div className="min-w-0">
+                                <p className="font-medium">
+                                    {template.name} <span style={{ color: mutedColor }}>· {template.builtIn ? 'built-in' : 'saved'}</span>
+                                </p>
+                                <p style={{ color: mutedColor }}>{template.description}</p>
+                                <p className="truncate" style={{ color: mutedColor }}>
+                                    {template.dailyColumns.slice(0, PREVIEW_HEADERS).map(col => col.header).join(', ')}
+                                    {template.dailyColumns.length > PREVIEW_HEADERS ? ', …' : ''}
+                                </p>
+                            </div>
+                        </label>
+                    ))}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-2 p-4" style={{ borderTop: `1px solid ${borderColor}` }}>
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 rounded-xl text-sm hover:opacity-80"
+                        style={{ color: mutedColor, border: `1px solid ${borderColor}` }}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => chosen && onConfirm(chosen)}
+                        disabled={!chosen}
+                        className="px-4 py-2 rounded-xl text-sm text-white disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90"
+                        style={{ backgroundColor: '#046241' }}
+                    >
+                        Start new plan
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,129 @@
+import { PlanTemplate } from "../types/production";
+
+// Column architectures that ship with the app. Daily columns start at F in DailyProductionTable, plan
+// columns at C on the plan sheet (after Date and Month) and pivot columns at C (after Week and Month).
+
+const dailyTotal = (header: string) =>
+  `SUMIFS(DailyProductionTable[${header}], DailyProductionTable[Date], A{rowIndex})`;
+const weeklyTotal = (header: string) =>
+  `SUMIFS(DailyProductionTable[${header}], DailyProductionTable[Week], A{rowIndex})`;
+
+export const BUILT_IN_TEMPLATES: PlanTemplate[] = [
+  {
+    id: "annotation",
+    name: "Annotation",
+    description: "Labelling or review work tracked by output, rejected items and hours, with quality rate and throughput per hour.",
+    builtIn: true,
+    unit: "labels",
+    distribution: { strategy: "lpb" },
+    dailyColumns: [
+      { header: "Target", key: "target" },
+      { header: "Actual", key: "actual" },
+      { header: "Hours", key: "hours" },
+      { header: "Rejected", key: "rejected" },
+      { header: "Accepted", key: "accepted", formula: "G{rowIndex}-I{rowIndex}" },
+      { header: "Variance", key: "variance", formula: "G{rowIndex}-F{rowIndex}" },
+      { header: "Labels per Hour", key: "labels_per_hour", formula: "IF(H{rowIndex}=0, 0, G{rowIndex}/H{rowIndex})" },
+    ],
+    columns: [
+      { header: "Target", key: "target", section: "Target", formula: dailyTotal("Target") },
+      { header: "Actual", key: "actual", section: "Actual", formula: dailyTotal("Actual") },
+      { header: "Accepted", key: "accepted", section: "Actual", formula: dailyTotal("Accepted") },
+      { header: "Quality Rate", key: "quality_rate", section: "Actual", formula: "IF(D{rowIndex}=0, 0, E{rowIndex}/D{rowIndex})" },
+      { header: "Cumulative Target", key: "cumulative_target", section: "Accumulative", formula: "SUM($C$5:C{rowIndex})" },
+      { header: "Cumulative Actual", key: "cumulative_actual", section: "Accumulative", formula: "SUM($D$5:D{rowIndex})" },
+    ],
+    pivotColumns: [
+      { header: "Total Target", formula: weeklyTotal("Target") },
+      { header: "Total Actual", formula: weeklyTotal("Actual") },
+      { header: "Total Accepted", formula: weeklyTotal("Accepted") },
+      { header: "Total Hours", formula: weeklyTotal("Hours") },
+      { header: "Quality Rate", formula: "IF(D{rowIndex}=0, 0, E{rowIndex}/D{rowIndex})" },
+      { header: "Cumulative Actual", formula: "SUM($D$2:D{rowIndex})" },
+    ],
+    dashboardMetrics: [
+      { label: "Total Actual", formula: "SUM(DailyProductionTable[Actual])", format: "number" },
+      { label: "Total Accepted", formula: "SUM(DailyProductionTable[Accepted])", format: "number" },
+      { label: "Quality Rate", formula: "IF(SUM(DailyProductionTable[Actual])=0, 0, SUM(DailyProductionTable[Accepted])/SUM(DailyProductionTable[Actual]))", format: "percent" },
+      { label: "Labels per Hour", formula: "IF(SUM(DailyProductionTable[Hours])=0, 0, SUM(DailyProductionTable[Actual])/SUM(DailyProductionTable[Hours]))", format: "decimal" },
+      { label: "Total Variance", formula: "SUM(DailyProductionTable[Variance])", format: "+#,##0;-#,##0;0" },
+    ],
+  },
+  {
+    id: "manufacturing",
+    name: "Manufacturing",
+    description: "Production lines tracked by output, scrap and downtime, with good units and yield.",
+    builtIn: true,
+    unit: "units",
+    distribution: { strategy: "lpb" },
+    dailyColumns: [
+      { header: "Target", key: "target" },
+      { header: "Actual", key: "actual" },
+      { header: "Scrap", key: "scrap" },
+      { header: "Good Units", key: "good_units", formula: "G{rowIndex}-H{rowIndex}" },
+      { header: "Downtime Minutes", key: "downtime_minutes" },
+      { header: "Variance", key: "variance", formula: "G{rowIndex}-F{rowIndex}" },
+    ],
+    columns: [
+      { header: "Target", key: "target", section: "Target", formula: dailyTotal("Target") },
+      { header: "Actual", key: "actual", section: "Actual", formula: dailyTotal("Actual") },
+      { header: "Good Units", key: "good_units", section: "Actual", formula: dailyTotal("Good Units") },
+      { header: "Scrap", key: "scrap", section: "Actual", formula: dailyTotal("Scrap") },
+      { header: "Yield Rate", key: "yield_rate", section: "Actual", formula: "IF(D{rowIndex}=0, 0, E{rowIndex}/D{rowIndex})" },
+      { header: "Cumulative Target", key: "cumulative_target", section: "Accumulative", formula: "SUM($C$5:C{rowIndex})" },
+      { header: "Cumulative Good Units", key: "cumulative_good_units", section: "Accumulative", formula: "SUM($E$5:E{rowIndex})" },
+    ],
+    pivotColumns: [
+      { header: "Total Target", formula: weeklyTotal("Target") },
+      { header: "Total Actual", formula: weeklyTotal("Actual") },
+      { header: "Good Units", formula: weeklyTotal("Good Units") },
+      { header: "Scrap", formula: weeklyTotal("Scrap") },
+      { header: "Downtime Minutes", formula: weeklyTotal("Downtime Minutes") },
+      { header: "Yield Rate", formula: "IF(D{rowIndex}=0, 0, E{rowIndex}/D{rowIndex})" },
+    ],
+    dashboardMetrics: [
+      { label: "Total Actual", formula: "SUM(DailyProductionTable[Actual])", format: "number" },
+      { label: "Good Units", formula: "SUM(DailyProductionTable[Good Units])", format: "number" },
+      { label: "Yield Rate", formula: "IF(SUM(DailyProductionTable[Actual])=0, 0, SUM(DailyProductionTable[Good Units])/SUM(DailyProductionTable[Actual]))", format: "percent" },
+      { label: "Scrap Rate", formula: "IF(SUM(DailyProductionTable[Actual])=0, 0, SUM(DailyProductionTable[Scrap])/SUM(DailyProductionTable[Actual]))", format: "percent" },
+      { label: "Downtime Hours", formula: "SUM(DailyProductionTable[Downtime Minutes])/60", format: "decimal" },
+    ],
+  },
+  {
+    id: "data-collection",
+    name: "Data Collection",
+    description: "Field or lab collection tracked by samples gathered and how many passed validation, at an even daily pace.",
+    builtIn: true,
+    unit: "samples",
+    distribution: { strategy: "flat" },
+    dailyColumns: [
+      { header: "Target", key: "target" },
+      { header: "Actual", key: "actual" },
+      { header: "Valid", key: "valid" },
+      { header: "Invalid", key: "invalid", formula: "G{rowIndex}-H{rowIndex}" },
+      { header: "Hours", key: "hours" },
+      { header: "Variance", key: "variance", formula: "G{rowIndex}-F{rowIndex}" },
+    ],
+    columns: [
+      { header: "Target", key: "target", section: "Target", formula: dailyTotal("Target") },
+      { header: "Collected", key: "collected", section: "Actual", formula: dailyTotal("Actual") },
+      { header: "Valid", key: "valid", section: "Actual", formula: dailyTotal("Valid") },
+      { header: "Valid Rate", key: "valid_rate", section: "Actual", formula: "IF(D{rowIndex}=0, 0, E{rowIndex}/D{rowIndex})" },
+      { header: "Cumulative Target", key: "cumulative_target", section: "Accumulative", formula: "SUM($C$5:C{rowIndex})" },
+      { header: "Cumulative Valid", key: "cumulative_valid", section: "Accumulative", formula: "SUM($E$5:E{rowIndex})" },
+    ],
+    pivotColumns: [
+      { header: "Total Target", formula: weeklyTotal("Target") },
+      { header: "Total Collected", formula: weeklyTotal("Actual") },
+      { header: "Total Valid", formula: weeklyTotal("Valid") },
+      { header: "Valid Rate", formula: "IF(D{rowIndex}=0, 0, E{rowIndex}/D{rowIndex})" },
+      { header: "Total Hours", formula: weeklyTotal("Hours") },
+    ],
+    dashboardMetrics: [
+      { label: "Total Collected", formula: "SUM(DailyProductionTable[Actual])", format: "number" },
+      { label: "Total Valid", formula: "SUM(DailyProductionTable[Valid])", format: "number" },
+      { label: "Valid Rate", formula: "IF(SUM(DailyProductionTable[Actual])=0, 0, SUM(DailyProductionTable[Valid])/SUM(DailyProductionTable[Actual]))", format: "percent" },
+      { label: "Samples per Hour", formula: "IF(SUM(DailyProductionTable[Hours])=0, 0, SUM(DailyProductionTable[Actual])/SUM(DailyProductionTable[Hours]))", format: "decimal" },
+    ],
+  },
+];
@@ -0,0 +1,90 @@
+import { AgentEvent, ChatRequest, ProjectSummary, StoredProject } from '../types/agent';
+import { PlanTemplate, ProjectData } from '../types/production';
+
+const API_BASE = '/api/chat';
+
+export class ChatSessionNotFoundError extends Error {
+    constructor() {
+        super('Chat session not found');
+        this.name = 'ChatSessionNotFoundError';
+    }
+}
+
+export const createChatSession = async (): Promise<string> => {
+    const response = await fetch(`${API_BASE}/sessions`, { method: 'POST' });
+    if (!response.ok) throw new Error(`Failed to start chat session (${response.status})`);
+    const { sessionId } = await response.json();
+    return sessionId;
+};
+
+export const deleteChatSession = async (sessionId: string) => {
+    await fetch(`${API_BASE}/sessions/${sessionId}`, { method: 'DELETE' }).catch(() => undefined);
+};
+
+/**
+ * Sends a message and calls onEvent for every event the server streams back.
+ */
+export const sendChatMessage = async (
+    sessionId: string,
+    request: ChatRequest,
+    onEvent: (event: AgentEvent) => void,
+    signal?: AbortSignal,
+) => {
+    const response = await fetch(`${API_BASE}/sessions/${sessionId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal,
+    });
+    if (response.status === 404) throw new ChatSessionNotFoundError();
+    if (!response.ok || !response.body) throw new Error(`Chat request failed (${response.status})`);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+    }
+    if (pending.trim()) onEvent(JSON.parse(pending));
+};
+
+/**
+ * Built-in and saved plan templates, for the "start from template" picker.
+ */
+export const listPlanTemplates = async (): Promise<PlanTemplate[]> => {
+    const response = await fetch('/api/templates');
+    if (!response.ok) throw new Error(`Failed to load templates (${response.status})`);
+    return response.json();
+};
+
+/**
+ * Stores a re-imported plan over the saved project of the same name, or as a new project, and builds its
+ * workbook on the server so it is kept as a revision like every other generated plan.
+ */
+export const saveImportedPlan = async (project: ProjectData): Promise<{ projectId: string; buffer: ArrayBuffer }> => {
+    const listed = await fetch('/api/projects');
+    if (!listed.ok) throw new Error(`Failed to load projects (${listed.status})`);
+    const existing = ((await listed.json()) as ProjectSummary[]).find(summary => summary.name.toLowerCase() === project.name.toLowerCase());
+    const saved = await fetch(existing ? `/api/projects/${existing.id}` : '/api/projects', {
+        method: existing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(project),
+    });
+    if (!saved.ok) throw new Error(`Failed to save the imported plan (${saved.status})`);
+    const { id } = (await saved.json()) as StoredProject;
+    const workbook = await fetch(`/api/projects/${id}/workbook`, { method: 'POST' });
+    if (!workbook.ok) throw new Error(`Failed to build the workbook (${workbook.status})`);
+    return { projectId: id, buffer: await workbook.arrayBuffer() };
+};
+
+export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+};
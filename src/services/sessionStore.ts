@@ -0,0 +1,214 @@
+import ExcelJS from 'exceljs';
+import { ChatSession, Message } from '../types/production';
+
+// Chat history lives in IndexedDB so generated workbooks and attachments survive a reload.
+// Binary content is kept in its own store, written once per message, so saving a session while a reply
+// streams in only rewrites the text.
+
+export const LEGACY_STORAGE_KEY = 'productionPlanChatHistory';
+
+const DB_NAME = 'productionPlanAgent';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const BLOBS_STORE = 'blobs';
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+interface StoredMessage extends Omit<Message, 'fileData' | 'attachment'> {
+    fileData?: { name: string; blobKey: string };
+    attachment?: { name: string; type: string; blobKey: string };
+}
+
+interface StoredSession extends Omit<ChatSession, 'messages'> {
+    messages: StoredMessage[];
+}
+
+export interface StorageUsage {
+    used: number; // Bytes used by this origin
+    quota?: number;
+    persisted: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Blob keys already written, so unchanged files are not rewritten on every save
+const storedBlobKeys = new Set<string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(BLOBS_STORE)) db.createObjectStore(BLOBS_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted'));
+    });
+
+const dataUrlToBlob = (dataUrl: string, fallbackType: string): Blob => {
+    const [header, base64 = ''] = dataUrl.split(',');
+    const type = header.match(/^data:([^;,]+)/)?.[1] || fallbackType;
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+const blobKeyRange = (sessionId: string) => IDBKeyRange.bound(`${sessionId}/`, `${sessionId}/\uffff`);
+
+const writeSession = (tx: IDBTransaction, session: ChatSession) => {
+    const blobs = tx.objectStore(BLOBS_STORE);
+    const putBlob = (key: string, create: () => Blob) => {
+        if (storedBlobKeys.has(key)) return;
+        blobs.put(create(), key);
+        storedBlobKeys.add(key);
+    };
+
+    const stored: StoredSession = {
+        ...session,
+        messages: session.messages.map(({ fileData, attachment, ...message }) => {
+            const storedMessage: StoredMessage = message;
+            if (fileData?.buffer) {
+                const blobKey = `${session.id}/${message.id}/file`;
+                putBlob(blobKey, () => new Blob([fileData.buffer as ArrayBuffer], { type: XLSX_TYPE }));
+                storedMessage.fileData = { name: fileData.name, blobKey };
+            }
+            if (attachment?.data) {
+                const blobKey = `${session.id}/${message.id}/attachment`;
+                putBlob(blobKey, () => dataUrlToBlob(attachment.data, attachment.type));
+                storedMessage.attachment = { name: attachment.name, type: attachment.type, blobKey };
+            }
+            return storedMessage;
+        }),
+    };
+    tx.objectStore(SESSIONS_STORE).put(stored);
+};
+
+const readSession = async (stored: StoredSession, blobs: Map<string, Blob>): Promise<ChatSession> => ({
+    ...stored,
+    messages: await Promise.all(stored.messages.map(async ({ fileData, attachment, ...message }) => {
+        const restored: Message = message;
+        const fileBlob = fileData && blobs.get(fileData.blobKey);
+        if (fileData && fileBlob) {
+            restored.fileData = { name: fileData.name, buffer: await fileBlob.arrayBuffer() as ExcelJS.Buffer };
+        }
+        const attachmentBlob = attachment && blobs.get(attachment.blobKey);
+        if (attachment && attachmentBlob) {
+            restored.attachment = { name: attachment.name, type: attachment.type, data: await blobToDataUrl(attachmentBlob) };
+        }
+        return restored;
+    })),
+});
+
+/**
+ * One-time import of the history kept in localStorage by earlier versions (without workbooks, which were never saved there).
+ */
+const migrateLegacySessions = async (db: IDBDatabase) => {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return;
+    let legacy: ChatSession[];
+    try {
+        legacy = JSON.parse(raw);
+    } catch (error) {
+        console.error('Discarding unreadable chat history:', error);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+    }
+    const tx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readwrite');
+    legacy.forEach(session => writeSession(tx, {
+        ...session,
+        messages: session.messages.map(m => ({ ...m, fileData: undefined })),
+    }));
+    await transactionDone(tx);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+export const loadSessions = async (): Promise<ChatSession[]> => {
+    const db = await openDb();
+    await migrateLegacySessions(db);
+
+    const tx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readonly');
+    const blobStore = tx.objectStore(BLOBS_STORE);
+    const [stored, keys, values] = await Promise.all([
+        requestResult(tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<StoredSession[]>),
+        requestResult(blobStore.getAllKeys()),
+        requestResult(blobStore.getAll() as IDBRequest<Blob[]>),
+    ]);
+    const blobs = new Map(keys.map((key, i) => [String(key), values[i]]));
+    blobs.forEach((_, key) => storedBlobKeys.add(key));
+
+    const sessions = await Promise.all(stored.map(session => readSession(session, blobs)));
+    return sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveSession = async (session: ChatSession) => {
+    const db = await openDb();
+    const tx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readwrite');
+    try {
+        writeSession(tx, session);
+        await transactionDone(tx);
+    } catch (error) {
+        if (!tx.error) tx.abort(); // A conversion failed before the commit; don't keep half the session
+        // Nothing from this transaction was written, so the blobs must be retried next time
+        storedBlobKeys.forEach(key => {
+            if (key.startsWith(`${session.id}/`)) storedBlobKeys.delete(key);
+        });
+        throw error;
+    }
+};
+
+export const deleteStoredSession = async (sessionId: string) => {
+    const db = await openDb();
+    const tx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    tx.objectStore(BLOBS_STORE).delete(blobKeyRange(sessionId));
+    await transactionDone(tx);
+    storedBlobKeys.forEach(key => {
+        if (key.startsWith(`${sessionId}/`)) storedBlobKeys.delete(key);
+    });
+};
+
+/**
+ * Asks the browser not to evict the history under storage pressure. Browsers may decline silently.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    return (await navigator.storage.persisted?.()) || navigator.storage.persist();
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const [estimate, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+    return { used: estimate.usage || 0, quota: estimate.quota, persisted };
+};
+
+export const isQuotaError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,58 @@
+import { ActualDataItem, Holiday, ProjectChange, ProjectData, SourceTable } from './production';
+
+// Wire format between the chat UI and the agent server
+
+export interface ChatAttachmentPayload {
+    name: string;
+    type: string;
+    data?: string; // Data URL, only sent for images
+    metadata?: string; // Extracted text and notes for the prompt; trimmed to the server's context budget
+    parsedData?: ActualDataItem[];
+    holidays?: Holiday[];
+    table?: SourceTable; // Raw rows, summarised for the prompt and kept for query_file_rows
+}
+
+export interface ChatRequest {
+    text: string;
+    attachments?: ChatAttachmentPayload[];
+    project?: Partial<ProjectData> | null; // Client-side project state, e.g. after re-importing a workbook
+    projectId?: string | null; // Stored project this conversation works on
+    templateId?: string; // Start a new plan from this template (server/templateRoutes.ts)
+}
+
+export type AgentEvent =
+    | { type: 'text'; text: string } // A chunk of the reply, appended to the current message
+    | { type: 'status'; message: string } // Progress while a tool runs, e.g. building the workbook
+    | { type: 'file'; name: string; data: string } // Base64 .xlsx
+    | { type: 'project'; project: ProjectData; projectId?: string }
+    | { type: 'patch'; project: Partial<ProjectData>; changes: ProjectChange[] } // An edit tool changed the definition; no file yet
+    | { type: 'error'; message: string }
+    | { type: 'done' };
+
+// Project store REST API (server/projectRoutes.ts)
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    goal: number;
+    unit: string;
+    startDate: string;
+    endDate: string;
+    actualCount: number;
+    revisionCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface StoredProject {
+    id: string;
+    project: ProjectData; // Definition with all stored actuals in actualData
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ProjectRevisionInfo {
+    revision: number;
+    fileName: string;
+    createdAt: string;
+}
@@ -16,10 +16,20 @@ export interface Message {
     };
 }
 
+export interface ChatSession {
+    id: string;
+    title: string;
+    createdAt: string;
+    messages: Message[];
+    projectId?: string; // Server-side stored project, once a plan has been generated
+}
+
 export interface ActualDataItem {
     date: string;
     name: string;
-    actual: number;
+    actual: number | null; // null when the source cell was blank
+    sourceFile?: string; // Upload the row was read from
+    sourceSheet?: string; // Worksheet within that upload, for Excel files
     [key: string]: any;
 }
 
@@ -37,25 +47,135 @@ export interface DailyColumn {
     formula?: string;
 }
 
+export interface DashboardMetric {
+    label: string;
+    formula: string;
+    format?: string; // Excel number format or a keyword such as 'percent', 'currency', 'days'
+}
+
+export type DistributionStrategy = 'flat' | 'linear' | 'lpb' | 's-curve' | 'front-loaded' | 'custom';
+
+export interface DistributionConfig {
+    strategy: DistributionStrategy;
+    startWeight?: number; // linear ramp: relative output on the first day
+    endWeight?: number; // linear ramp: relative output on the last day
+    weeklyWeights?: number[]; // custom: relative output per project week, the last value repeats
+}
+
+export interface Holiday {
+    date: string; // YYYY-MM-DD
+    name?: string;
+}
+
+export interface ResourceLeave {
+    resource: string;
+    start: string; // YYYY-MM-DD, inclusive
+    end: string; // YYYY-MM-DD, inclusive
+    reason?: string;
+}
+
+export interface WorkingCalendar {
+    workingDays?: number[]; // 0 = Sunday … 6 = Saturday, every day when unset
+    holidays?: Holiday[];
+    leave?: ResourceLeave[];
+}
+
+export interface ResourceSpec {
+    name: string;
+    capacity?: number; // units per working day (or headcount), defaults to an equal share
+    efficiency?: number; // throughput multiplier, 1 = nominal
+    startDate?: string; // YYYY-MM-DD, first day the resource is on the project
+    endDate?: string; // YYYY-MM-DD, last day the resource is on the project
+}
+
+export type ProjectResource = string | ResourceSpec;
+
 export interface ProjectData {
     name: string;
     goal: number;
     unit: string;
     startDate: string;
     endDate: string;
-    resources: string[];
+    resources: ProjectResource[];
     actualData?: ActualDataItem[];
     columns: ProjectColumn[];
     dailyColumns: DailyColumn[];
     pivotColumns?: { header: string; formula: string }[];
-    dashboardMetrics?: { label: string; formula: string; format?: string }[];
+    dashboardMetrics?: DashboardMetric[];
+    distribution?: DistributionConfig;
+    calendar?: WorkingCalendar;
+    resourceAliases?: Record<string, string>; // Name used in actuals -> plan resource, confirmed by the user
+}
+
+/**
+ * A reusable column architecture: the plan, daily, pivot and dashboard layout without the project's own details.
+ */
+export interface PlanTemplate {
+    id: string;
+    name: string;
+    description: string;
+    builtIn: boolean; // Shipped with the app; saved ones can be deleted
+    unit?: string; // Suggested unit, used when the project has none yet
+    distribution?: DistributionConfig;
+    columns: ProjectColumn[];
+    dailyColumns: DailyColumn[];
+    pivotColumns?: { header: string; formula: string }[];
+    dashboardMetrics?: DashboardMetric[];
+    createdAt?: string; // Saved templates only
+}
+
+/**
+ * One field-level difference between two versions of a project definition.
+ */
+export interface ProjectChange {
+    path: string; // e.g. 'endDate', 'resources[Team D]', 'dailyColumns[variance].formula'
+    before?: unknown; // Unset when something was added
+    after?: unknown; // Unset when something was removed
+}
+
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+/**
+ * Which source column feeds each actuals field. Values are the file's header names.
+ */
+export interface ColumnMapping {
+    date?: string;
+    resource?: string;
+    actual?: string;
+    extra: Record<string, string>; // dailyColumns key -> source header
+    dateOrder?: DateOrder; // How to read dates like 03/04/2025; detected from the file when unset
+}
+
+/**
+ * A row that was imported with a guess or left out, listed for the user to review.
+ */
+export interface ImportIssue {
+    row: number; // 1-based data row, as the user sees it below the header
+    field: string;
+    value: string;
+    message: string;
+    severity: 'ambiguous' | 'invalid';
+}
+
+export interface SourceTable {
+    headers: string[];
+    rows: Record<string, any>[];
+    fileName?: string;
+    sheet?: string; // Worksheet name, for Excel files
 }
 
 export interface FileAttachment {
+    id: string; // Per upload (and sheet), so files that share a name stay separate
     name: string;
     type: string;
     data: string;
     file: File;
     metadata?: string;
     parsedData?: ActualDataItem[];
+    holidays?: Holiday[];
+    importedPlan?: ProjectData; // Set when the upload is a workbook this app generated
+    table?: SourceTable; // Raw rows of a CSV/Excel upload, kept for column mapping
+    sheets?: SourceTable[]; // Every worksheet with data, when a workbook has more than one
+    columnMapping?: ColumnMapping;
+    importIssues?: ImportIssue[];
 }
@@ -0,0 +1,46 @@
+import { ActualDataItem } from '../types/production';
+
+// Combines actuals from several uploads (a file per week, a sheet per line) into one set.
+// A date and resource reported twice keeps the later source, as re-sending a corrected file should.
+
+export interface MergedActuals {
+    rows: ActualDataItem[];
+    replaced: number; // Rows superseded by a later source with the same date and resource
+}
+
+/**
+ * Identifies a row by its date and resource, ignoring case and surrounding spaces in the name.
+ */
+export const actualKey = (item: ActualDataItem) => `${item.date}|${item.name.trim().toLowerCase()}`;
+
+/**
+ * Merges actuals in source order; later sources win on the same date and resource.
+ */
+export const mergeActuals = (sources: ActualDataItem[][]): MergedActuals => {
+    const byKey = new Map<string, ActualDataItem>();
+    let replaced = 0;
+    sources.forEach(rows => rows.forEach(item => {
+        const key = actualKey(item);
+        if (byKey.has(key)) replaced++;
+        // Setting an existing key keeps its first-seen position but takes the later values
+        byKey.set(key, item);
+    }));
+    return { rows: Array.from(byKey.values()), replaced };
+};
+
+/**
+ * Short note for the prompt when actuals from more than one source are sent together.
+ */
+export const describeMergedActuals = (sources: ActualDataItem[][]): string => {
+    const withRows = sources.filter(rows => rows.length > 0);
+    if (withRows.length < 2) return '';
+    const { rows, replaced } = mergeActuals(withRows);
+    return `\n(Actuals from ${withRows.length} sources were merged into ${rows.length} rows`
+        + `${replaced > 0 ? `; ${replaced} row(s) repeated a date and resource and the later source was kept` : ''}.)`;
+};
+
+/**
+ * "week1.xlsx › Line 2", or just the file name.
+ */
+export const formatActualSource = (item: Pick<ActualDataItem, 'sourceFile' | 'sourceSheet'>): string =>
+    [item.sourceFile, item.sourceSheet].filter(Boolean).join(' › ');
@@ -0,0 +1,207 @@
+import { format, isValid, parse } from 'date-fns';
+import { ActualDataItem, ColumnMapping, DailyColumn, DateOrder, ImportIssue, SourceTable } from '../types/production';
+import { detectDateOrder, detectDecimalSeparator, isBlankValue, parseDateValue, parseNumberValue } from './importNormalization';
+
+const SAVED_MAPPINGS_KEY = 'productionPlanColumnMappings';
+const SAMPLE_SIZE = 20;
+
+// Header words that usually mean each field, strongest first
+const HEADER_HINTS: Record<'date' | 'resource' | 'actual', string[]> = {
+    date: ['date', 'day', 'workdate', 'productiondate', 'reportdate', 'shiftdate', 'period'],
+    resource: ['name', 'resource', 'operator', 'employee', 'worker', 'agent', 'member', 'assignee', 'staff', 'team', 'line', 'machine'],
+    actual: ['actual', 'output', 'produced', 'quantity', 'qty', 'completed', 'done', 'count', 'units', 'total'],
+};
+
+// Fields that are filled from the dedicated mapping rows, so they are not offered again as extra columns
+const BASE_KEYS = ['date', 'name', 'actual', 'target'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const DATE_PATTERNS = ['yyyy-MM-dd', 'M/d/yyyy', 'd/M/yyyy', 'yyyy/MM/dd', 'd-MMM-yyyy', 'MMM d, yyyy', 'd MMM yyyy'];
+
+const looksLikeDate = (value: unknown): boolean => {
+    if (value instanceof Date) return isValid(value);
+    if (typeof value !== 'string' || !value.trim()) return false;
+    return DATE_PATTERNS.some(pattern => isValid(parse(value.trim(), pattern, new Date())));
+};
+
+const looksLikeNumber = (value: unknown): boolean =>
+    typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value.replace(/,/g, ''))));
+
+const shareOf = (values: unknown[], test: (value: unknown) => boolean) =>
+    values.length === 0 ? 0 : values.filter(test).length / values.length;
+
+const headerScore = (header: string, hints: string[]) => {
+    const normalized = normalizeHeader(header);
+    const index = hints.findIndex(hint => normalized === hint);
+    if (index >= 0) return 3 - index / hints.length;
+    return hints.some(hint => normalized.includes(hint)) ? 1 : 0;
+};
+
+/**
+ * Suggests a mapping from header names, then fills any gaps from what the sample values look like.
+ */
+export const guessColumnMapping = (table: SourceTable, dailyColumns: DailyColumn[] = []): ColumnMapping => {
+    const samples = new Map(table.headers.map(header => [
+        header,
+        table.rows.slice(0, SAMPLE_SIZE).map(row => row[header]).filter(value => value !== null && value !== undefined && value !== ''),
+    ]));
+    const used = new Set<string>();
+    const pick = (field: keyof typeof HEADER_HINTS, fits: (values: unknown[]) => boolean) => {
+        const ranked = table.headers
+            .filter(header => !used.has(header))
+            .map(header => ({ header, score: headerScore(header, HEADER_HINTS[field]) }))
+            .filter(({ header, score }) => score > 0 && fits(samples.get(header) || []))
+            .sort((a, b) => b.score - a.score);
+        const fallback = ranked.length === 0 ? table.headers.find(header => !used.has(header) && fits(samples.get(header) || [])) : undefined;
+        const chosen = ranked[0]?.header || fallback;
+        if (chosen) used.add(chosen);
+        return chosen;
+    };
+
+    const date = pick('date', values => shareOf(values, looksLikeDate) >= 0.8);
+    const actual = pick('actual', values => shareOf(values, looksLikeNumber) >= 0.8);
+    const resource = pick('resource', values => values.length > 0 && shareOf(values, looksLikeNumber) < 0.5 && shareOf(values, looksLikeDate) < 0.5);
+
+    const extra: Record<string, string> = {};
+    dailyColumns
+        .filter(col => !col.formula && !BASE_KEYS.includes(col.key.toLowerCase()))
+        .forEach(col => {
+            const match = table.headers.find(header =>
+                !used.has(header) && [col.key, col.header].some(name => normalizeHeader(name) === normalizeHeader(header)));
+            if (match) {
+                extra[col.key] = match;
+                used.add(match);
+            }
+        });
+
+    return { date, resource, actual, extra };
+};
+
+export interface MappedActuals {
+    rows: ActualDataItem[];
+    issues: ImportIssue[];
+    dateOrder: DateOrder;
+    dateOrderDetected: boolean; // false when the file alone couldn't tell day-first from month-first
+}
+
+const describeValue = (value: unknown) => (value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? ''));
+
+/**
+ * Builds normalised actuals rows from the mapped columns. Rows without a readable date or resource are left out
+ * and, like values read with a guess, listed in issues.
+ */
+export const applyColumnMapping = (table: SourceTable, mapping: ColumnMapping): MappedActuals => {
+    const dateValues = mapping.date ? table.rows.map(row => row[mapping.date!]) : [];
+    const detected = detectDateOrder(dateValues);
+    const dateOrder = mapping.dateOrder || detected.order;
+    const orderIsAmbiguous = !mapping.dateOrder && detected.ambiguous;
+    const result: MappedActuals = { rows: [], issues: [], dateOrder, dateOrderDetected: !detected.ambiguous };
+    if (!mapping.date || !mapping.resource) return result;
+
+    const separators = new Map<string, '.' | ','>();
+    const separatorFor = (header: string) => {
+        if (!separators.has(header)) separators.set(header, detectDecimalSeparator(table.rows.map(row => row[header])));
+        return separators.get(header)!;
+    };
+    // Extra columns are only read as numbers when most of their values are numbers
+    const numericExtras = new Set(Object.values(mapping.extra).filter(header => {
+        const values = table.rows.map(row => row[header]).filter(value => !isBlankValue(value));
+        return values.length > 0 && values.filter(value => parseNumberValue(value, separatorFor(header)).value !== null).length / values.length >= 0.8;
+    }));
+
+    table.rows.forEach((row, index) => {
+        const rowNumber = index + 1;
+        const mappedHeaders = [mapping.date!, mapping.resource!, mapping.actual, ...Object.values(mapping.extra)].filter(Boolean) as string[];
+        if (mappedHeaders.every(header => isBlankValue(row[header]))) return;
+        const report = (field: string, value: unknown, issue: Pick<ImportIssue, 'message' | 'severity'>) =>
+            result.issues.push({ row: rowNumber, field, value: describeValue(value), ...issue });
+
+        const date = parseDateValue(row[mapping.date!], dateOrder, orderIsAmbiguous);
+        const name = isBlankValue(row[mapping.resource!]) ? '' : String(row[mapping.resource!]).trim();
+        if (!date.value) report('Date', row[mapping.date!], { message: `${date.issue?.message || 'Missing date'}; row left out`, severity: 'invalid' });
+        else if (date.issue) report('Date', row[mapping.date!], date.issue);
+        if (!name) report('Resource', '', { message: 'Missing resource; row left out', severity: 'invalid' });
+        if (!date.value || !name) return;
+
+        const item: ActualDataItem = { date: date.value, name, actual: null };
+        if (table.fileName) item.sourceFile = table.fileName;
+        if (table.sheet) item.sourceSheet = table.sheet;
+        if (mapping.actual) {
+            const actual = parseNumberValue(row[mapping.actual], separatorFor(mapping.actual));
+            if (actual.issue) report('Actual', row[mapping.actual], actual.issue);
+            item.actual = actual.value;
+        }
+        Object.entries(mapping.extra).forEach(([key, header]) => {
+            const value = row[header];
+            if (isBlankValue(value)) return;
+            if (numericExtras.has(header)) {
+                const parsed = parseNumberValue(value, separatorFor(header));
+                if (parsed.issue) report(header, value, parsed.issue);
+                if (parsed.value !== null) item[key] = parsed.value;
+            } else {
+                item[key] = value instanceof Date ? parseDateValue(value, dateOrder).value : value;
+            }
+        });
+        result.rows.push(item);
+    });
+    return result;
+};
+
+/**
+ * Identifies an export layout by its headers, so next week's file from the same system reuses the mapping.
+ */
+export const getFileSignature = (headers: string[]): string =>
+    [...headers].map(normalizeHeader).filter(Boolean).sort().join('|');
+
+const readSavedMappings = (): Record<string, ColumnMapping> => {
+    try {
+        return JSON.parse(localStorage.getItem(SAVED_MAPPINGS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const loadSavedMapping = (table: SourceTable): ColumnMapping | null => {
+    const saved = readSavedMappings()[getFileSignature(table.headers)];
+    if (!saved) return null;
+    // Ignore a saved mapping that points at columns this file doesn't have
+    const referenced = [saved.date, saved.resource, saved.actual, ...Object.values(saved.extra || {})].filter(Boolean) as string[];
+    return referenced.every(header => table.headers.includes(header)) ? { ...saved, extra: saved.extra || {} } : null;
+};
+
+export const saveColumnMapping = (table: SourceTable, mapping: ColumnMapping) => {
+    const saved = readSavedMappings();
+    saved[getFileSignature(table.headers)] = mapping;
+    try {
+        localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(saved));
+    } catch (error) {
+        console.error('Failed to save column mapping:', error);
+    }
+};
+
+/**
+ * True when the table plausibly holds actuals at all, i.e. it is worth asking the user to map it.
+ */
+export const hasMappableColumns = (mapping: ColumnMapping) => !!(mapping.resource && (mapping.actual || Object.keys(mapping.extra).length > 0));
+
+export const describeColumnMapping = (mapping: ColumnMapping, dailyColumns: DailyColumn[] = []): string => {
+    const parts = [
+        mapping.date && `Date ← "${mapping.date}"`,
+        mapping.resource && `Resource ← "${mapping.resource}"`,
+        mapping.actual && `Actual ← "${mapping.actual}"`,
+        ...Object.entries(mapping.extra).map(([key, header]) =>
+            `${dailyColumns.find(col => col.key === key)?.header || key} ← "${header}"`),
+    ].filter(Boolean);
+    return parts.length > 0 ? `\n(Columns mapped to actuals: ${parts.join(', ')}.)` : '';
+};
+
+export const describeImportIssues = (issues: ImportIssue[]): string => {
+    if (issues.length === 0) return '';
+    const leftOut = new Set(issues.filter(issue => /left out/.test(issue.message)).map(issue => issue.row)).size;
+    const ambiguous = issues.filter(issue => issue.severity === 'ambiguous').length;
+    return `\n(Import review: ${issues.length} value(s) need attention`
+        + `${leftOut > 0 ? `, ${leftOut} row(s) were left out` : ''}`
+        + `${ambiguous > 0 ? `, ${ambiguous} date(s) could be read either day-first or month-first` : ''}. `
+        + 'Mention this to the user if it affects the plan.)';
+};
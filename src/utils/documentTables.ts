@@ -0,0 +1,162 @@
+import { SourceTable } from '../types/production';
+
+// Rebuilds tables from report documents so production figures in a PDF or Word file can be read as actuals.
+// PDFs carry no table structure, only positioned text, so rows come from shared baselines and columns
+// from the header line's positions. Word tables arrive as HTML from mammoth.
+
+export interface PositionedText {
+    text: string;
+    x: number; // Left edge, PDF units from the left of the page
+    y: number; // Baseline, PDF units from the bottom of the page
+    width: number;
+    height: number; // Font size, roughly
+}
+
+interface TextCell {
+    text: string;
+    start: number;
+    end: number;
+}
+
+const MIN_COLUMNS = 2;
+
+/**
+ * Gives blank or repeated header names a unique label so every column can be mapped.
+ */
+const uniqueHeaders = (headers: string[]): string[] => {
+    const seen = new Map<string, number>();
+    return headers.map((header, i) => {
+        const base = header.trim() || `Column ${i + 1}`;
+        const count = (seen.get(base) || 0) + 1;
+        seen.set(base, count);
+        return count > 1 ? `${base} (${count})` : base;
+    });
+};
+
+const toSourceTable = (headerCells: string[], bodyRows: string[][], fileName: string, sheet: string): SourceTable => {
+    const headers = uniqueHeaders(headerCells);
+    return {
+        headers,
+        rows: bodyRows.map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']))),
+        fileName,
+        sheet,
+    };
+};
+
+// Items on the same baseline, within a fraction of the font size, form one line
+const groupLines = (items: PositionedText[]): PositionedText[][] => {
+    const sorted = items.filter(item => item.text.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+    const lines: PositionedText[][] = [];
+    sorted.forEach(item => {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line[0].y - item.y) <= Math.max(2, item.height * 0.5)) line.push(item);
+        else lines.push([item]);
+    });
+    return lines.map(line => line.sort((a, b) => a.x - b.x));
+};
+
+// Words closer than about a character's width belong to the same cell
+const splitCells = (line: PositionedText[]): TextCell[] => {
+    const cells: TextCell[] = [];
+    line.forEach(item => {
+        const cell = cells[cells.length - 1];
+        const gap = cell ? item.x - cell.end : Infinity;
+        if (cell && gap < Math.max(3, item.height * 0.9)) {
+            cell.text += `${gap > item.height * 0.15 ? ' ' : ''}${item.text.trim()}`;
+            cell.end = item.x + item.width;
+        } else {
+            cells.push({ text: item.text.trim(), start: item.x, end: item.x + item.width });
+        }
+    });
+    return cells;
+};
+
+/**
+ * Places a line's cells under the header's columns by their centres. Null when the line doesn't fit the
+ * table: too few columns, two cells under one header, or text outside the header's span.
+ */
+const fitToColumns = (cells: TextCell[], header: TextCell[]): string[] | null => {
+    if (cells.length < MIN_COLUMNS || cells.length > header.length) return null;
+    const boundaries = header.slice(0, -1).map((cell, i) => (cell.end + header[i + 1].start) / 2);
+    const margin = (header[header.length - 1].end - header[0].start) * 0.1;
+    const values: string[] = header.map(() => '');
+    for (const cell of cells) {
+        const centre = (cell.start + cell.end) / 2;
+        if (centre < header[0].start - margin || centre > header[header.length - 1].end + margin) return null;
+        const column = boundaries.filter(boundary => centre > boundary).length;
+        if (values[column]) return null;
+        values[column] = cell.text;
+    }
+    return values;
+};
+
+/**
+ * Finds tables in the text of PDF pages: a line with two or more separated cells starts a table and
+ * following lines that line up under its columns become its rows. A table that carries on onto the next
+ * page under the same header is kept as one.
+ */
+export const tablesFromTextItems = (pages: PositionedText[][], fileName: string): SourceTable[] => {
+    const tables: SourceTable[] = [];
+    let lastTablePage = -1;
+    pages.forEach((items, pageIndex) => {
+        let header: TextCell[] | null = null;
+        let rows: string[][] = [];
+        const close = () => {
+            if (header && rows.length > 0) {
+                const table = toSourceTable(header.map(cell => cell.text), rows, fileName, `Table ${tables.length + 1} (page ${pageIndex + 1})`);
+                const previous = tables[tables.length - 1];
+                const continues = previous && lastTablePage === pageIndex - 1 && previous.headers.join('|') === table.headers.join('|');
+                if (continues) previous.rows.push(...table.rows);
+                else tables.push(table);
+                lastTablePage = pageIndex;
+            }
+            header = null;
+            rows = [];
+        };
+
+        groupLines(items).forEach(line => {
+            const cells = splitCells(line);
+            const values = header ? fitToColumns(cells, header) : null;
+            if (header && values) {
+                const isRepeatedHeader = values.every((value, i) => value === header![i].text);
+                if (!isRepeatedHeader) rows.push(values);
+                return;
+            }
+            close();
+            if (cells.length >= MIN_COLUMNS) header = cells;
+        });
+        close();
+    });
+    return tables;
+};
+
+/**
+ * Reads the tables in HTML (as mammoth produces for DOCX), taking each table's first row as its header.
+ * Merged cells are spread so later cells stay under their headers.
+ */
+export const tablesFromHtml = (html: string, fileName: string): SourceTable[] => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const tables: SourceTable[] = [];
+    doc.querySelectorAll('table').forEach(table => {
+        // rows and cells, unlike querySelectorAll, leave out those of nested tables
+        const rows = Array.from(table.rows).map(tr =>
+            Array.from(tr.cells).flatMap(cell => {
+                const span = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+                return [cell.textContent?.replace(/\s+/g, ' ').trim() || '', ...Array(span - 1).fill('')];
+            }),
+        ).filter(cells => cells.some(Boolean));
+        const [headerCells, ...bodyRows] = rows;
+        if (!headerCells || headerCells.length < MIN_COLUMNS || bodyRows.length === 0) return;
+        tables.push(toSourceTable(headerCells, bodyRows, fileName, `Table ${tables.length + 1}`));
+    });
+    return tables;
+};
+
+/**
+ * Note for the prompt about tables read from a document.
+ */
+export const describeDocumentTables = (tables: SourceTable[]): string =>
+    tables.length > 0
+        ? `\n(Detected ${tables.length} table(s) in this document: ${tables.map(t => `${t.sheet} with ${t.rows.length} row(s)`).join(', ')}. `
+            + 'Their rows are read as actuals where they have date and resource columns.)'
+        : '';
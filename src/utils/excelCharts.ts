@@ -0,0 +1,178 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+
+// ExcelJS can't write charts, so they are injected as DrawingML parts into the saved package.
+
+export interface ChartSeries {
+    name: string;
+    values: string; // Absolute range, e.g. 'Chart_Data'!$D$2:$D$30
+    color?: string; // RRGGBB
+}
+
+export interface ChartSpec {
+    type: 'line' | 'bar';
+    title: string;
+    categories: string;
+    series: ChartSeries[];
+    stacked?: boolean;
+    categoryFormat?: string; // Number format for the category axis, e.g. 'd-mmm' for dates
+    anchor: { col: number; row: number; width: number; height: number }; // Zero-based cells
+}
+
+const SERIES_COLORS = ['006633', 'FFB347', '70AD47', '4472C4', 'A5A5A5', 'C00000', '7030A0', '00B0F0'];
+
+const CONTENT_TYPES = {
+    drawing: 'application/vnd.openxmlformats-officedocument.drawing+xml',
+    chart: 'application/vnd.openxmlformats-officedocument.drawingml.chart+xml',
+};
+
+const REL_TYPES = {
+    drawing: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing',
+    chart: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart',
+};
+
+export const quoteSheetRef = (sheetName: string, range: string) => `'${sheetName.replace(/'/g, "''")}'!${range}`;
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const buildSeriesXml = (spec: ChartSpec) => spec.series.map((series, index) => {
+    const color = series.color || SERIES_COLORS[index % SERIES_COLORS.length];
+    const spPr = spec.type === 'line'
+        ? `<c:spPr><a:ln w="28575" cap="rnd"><a:solidFill><a:srgbClr val="${color}"/></a:solidFill><a:round/></a:ln></c:spPr><c:marker><c:symbol val="none"/></c:marker>`
+        : `<c:spPr><a:solidFill><a:srgbClr val="${color}"/></a:solidFill></c:spPr><c:invertIfNegative val="0"/>`;
+    return `<c:ser><c:idx val="${index}"/><c:order val="${index}"/><c:tx><c:v>${escapeXml(series.name)}</c:v></c:tx>${spPr}`
+        + `<c:cat><c:numRef><c:f>${escapeXml(spec.categories)}</c:f></c:numRef></c:cat>`
+        + `<c:val><c:numRef><c:f>${escapeXml(series.values)}</c:f></c:numRef></c:val>`
+        + (spec.type === 'line' ? '<c:smooth val="0"/>' : '')
+        + '</c:ser>';
+}).join('');
+
+const buildChartXml = (spec: ChartSpec) => {
+    const axisIds = '<c:axId val="500000001"/><c:axId val="500000002"/>';
+    const plot = spec.type === 'line'
+        ? `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${buildSeriesXml(spec)}<c:marker val="1"/>${axisIds}</c:lineChart>`
+        : `<c:barChart><c:barDir val="col"/><c:grouping val="${spec.stacked ? 'stacked' : 'clustered'}"/><c:varyColors val="0"/>${buildSeriesXml(spec)}`
+            + `<c:gapWidth val="80"/>${spec.stacked ? '<c:overlap val="100"/>' : ''}${axisIds}</c:barChart>`;
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + '<c:roundedCorners val="0"/><c:chart>'
+        + `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:pPr><a:defRPr sz="1400" b="1"/></a:pPr><a:r><a:rPr lang="en-US" sz="1400" b="1"/><a:t>${escapeXml(spec.title)}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/></c:title>`
+        + '<c:autoTitleDeleted val="0"/><c:plotArea><c:layout/>'
+        + plot
+        + '<c:catAx><c:axId val="500000001"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="b"/>'
+        + `<c:numFmt formatCode="${escapeXml(spec.categoryFormat || 'General')}" sourceLinked="0"/>`
+        + '<c:majorTickMark val="out"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="500000002"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>'
+        + '<c:valAx><c:axId val="500000002"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="l"/><c:majorGridlines/>'
+        + '<c:numFmt formatCode="#,##0" sourceLinked="0"/><c:majorTickMark val="out"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="500000001"/><c:crosses val="autoZero"/><c:crossBetween val="between"/></c:valAx>'
+        + '</c:plotArea><c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend><c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart></c:chartSpace>';
+};
+
+const buildDrawingXml = (charts: ChartSpec[], relIds: string[]) => {
+    const anchors = charts.map((spec, index) => {
+        const { col, row, width, height } = spec.anchor;
+        return '<xdr:twoCellAnchor editAs="oneCell">'
+            + `<xdr:from><xdr:col>${col}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${row}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>`
+            + `<xdr:to><xdr:col>${col + width}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${row + height}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>`
+            + `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="${index + 2}" name="${escapeXml(spec.title)}"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>`
+            + '<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>'
+            + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">'
+            + `<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:id="${relIds[index]}"/>`
+            + '</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:twoCellAnchor>';
+    }).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">'
+        + anchors
+        + '</xdr:wsDr>';
+};
+
+const buildRelsXml = (relationships: { id: string; type: string; target: string }[]) =>
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + relationships.map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`).join('')
+    + '</Relationships>';
+
+const nextFreeIndex = (zip: JSZip, pattern: RegExp) => {
+    const used = Object.keys(zip.files).map(name => name.match(pattern)).filter(Boolean).map(match => parseInt(match![1], 10));
+    return used.length > 0 ? Math.max(...used) + 1 : 1;
+};
+
+const findSheetPath = async (zip: JSZip, sheetName: string): Promise<string> => {
+    const workbookXml = await zip.file('xl/workbook.xml')!.async('string');
+    const relsXml = await zip.file('xl/_rels/workbook.xml.rels')!.async('string');
+    const sheetTag = Array.from(workbookXml.matchAll(/<sheet\b[^>]*>/g))
+        .map(match => match[0])
+        .find(tag => tag.includes(`name="${escapeXml(sheetName)}"`));
+    const relId = sheetTag?.match(/r:id="([^"]+)"/)?.[1];
+    const relTag = relId && Array.from(relsXml.matchAll(/<Relationship\b[^>]*>/g))
+        .map(match => match[0])
+        .find(tag => tag.includes(`Id="${relId}"`));
+    const target = relTag && relTag.match(/Target="([^"]+)"/)?.[1];
+    if (!target) throw new Error(`Worksheet "${sheetName}" not found in workbook`);
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Adds the given charts to a worksheet of an already generated workbook and returns the new package.
+ */
+export const addChartsToWorkbook = async (buffer: ExcelJS.Buffer, sheetName: string, charts: ChartSpec[]): Promise<ExcelJS.Buffer> => {
+    if (charts.length === 0) return buffer;
+    const zip = await JSZip.loadAsync(buffer as ArrayBuffer);
+
+    const sheetPath = await findSheetPath(zip, sheetName);
+    const sheetFile = sheetPath.split('/').pop()!;
+    const sheetRelsPath = `xl/worksheets/_rels/${sheetFile}.rels`;
+
+    const drawingIndex = nextFreeIndex(zip, /^xl\/drawings\/drawing(\d+)\.xml$/);
+    const firstChartIndex = nextFreeIndex(zip, /^xl\/charts\/chart(\d+)\.xml$/);
+    const drawingPath = `xl/drawings/drawing${drawingIndex}.xml`;
+
+    // Chart parts and the drawing that anchors them
+    const chartRelIds = charts.map((_, index) => `rId${index + 1}`);
+    charts.forEach((spec, index) => {
+        zip.file(`xl/charts/chart${firstChartIndex + index}.xml`, buildChartXml(spec));
+    });
+    zip.file(drawingPath, buildDrawingXml(charts, chartRelIds));
+    zip.file(`xl/drawings/_rels/drawing${drawingIndex}.xml.rels`, buildRelsXml(charts.map((_, index) => ({
+        id: chartRelIds[index],
+        type: REL_TYPES.chart,
+        target: `../charts/chart${firstChartIndex + index}.xml`,
+    }))));
+
+    // Link the drawing from the worksheet
+    const existingRels = zip.file(sheetRelsPath) ? await zip.file(sheetRelsPath)!.async('string') : null;
+    const drawingRelId = `rIdChartDrawing${drawingIndex}`;
+    const drawingRel = `<Relationship Id="${drawingRelId}" Type="${REL_TYPES.drawing}" Target="../drawings/drawing${drawingIndex}.xml"/>`;
+    zip.file(sheetRelsPath, existingRels
+        ? existingRels.replace('</Relationships>', `${drawingRel}</Relationships>`)
+        : buildRelsXml([{ id: drawingRelId, type: REL_TYPES.drawing, target: `../drawings/drawing${drawingIndex}.xml` }]));
+
+    let sheetXml = await zip.file(sheetPath)!.async('string');
+    if (!sheetXml.includes('xmlns:r=')) {
+        sheetXml = sheetXml.replace('<worksheet ', '<worksheet xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ');
+    }
+    // <drawing> must precede these elements in the worksheet schema
+    const insertBefore = ['<legacyDrawing', '<legacyDrawingHF', '<picture', '<oleObjects', '<controls', '<webPublishItems', '<tableParts', '<extLst', '</worksheet>']
+        .map(tag => sheetXml.indexOf(tag))
+        .filter(index => index >= 0);
+    const insertAt = Math.min(...insertBefore);
+    sheetXml = `${sheetXml.slice(0, insertAt)}<drawing r:id="${drawingRelId}"/>${sheetXml.slice(insertAt)}`;
+    zip.file(sheetPath, sheetXml);
+
+    // Register the new parts
+    let contentTypes = await zip.file('[Content_Types].xml')!.async('string');
+    const overrides = [
+        `<Override PartName="/${drawingPath}" ContentType="${CONTENT_TYPES.drawing}"/>`,
+        ...charts.map((_, index) => `<Override PartName="/xl/charts/chart${firstChartIndex + index}.xml" ContentType="${CONTENT_TYPES.chart}"/>`),
+    ].join('');
+    contentTypes = contentTypes.replace('</Types>', `${overrides}</Types>`);
+    zip.file('[Content_Types].xml', contentTypes);
+
+    return await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' }) as ExcelJS.Buffer;
+};
@@ -1,6 +1,15 @@
 import ExcelJS from 'exceljs';
-import { eachDayOfInterval, isValid, isSameDay } from 'date-fns';
-import { ProjectData, ActualDataItem } from '../types/production';
+import { differenceInCalendarDays, eachDayOfInterval, format, isValid } from 'date-fns';
+import { ProjectData, ActualDataItem, DashboardMetric } from '../types/production';
+import { DEFAULT_DISTRIBUTION, describeDistribution, getAvailableWeights, getDayTargets } from './targetDistribution';
+import { describeNonWorkingDay, isResourceAvailable, isWorkingDay } from './workingCalendar';
+import { NormalizedResource, isWithinResourceDates, normalizeResources } from './resources';
+import { ChartSpec, addChartsToWorkbook, quoteSheetRef } from './excelCharts';
+import { PLAN_CREATOR, addPlanMetadataSheet } from './planImport';
+import { toLocalDate } from './importNormalization';
+import { formatActualSource } from './actualsMerge';
+import { UNASSIGNED_SHEET, UnassignedActual, reconcileProjectActuals } from './resourceMatching';
+import { ProjectForecast, describeForecastStatus, forecastProject } from './forecast';
 
 export const getColumnLetter = (colIndex: number): string => {
     let letter = '';
@@ -14,42 +23,552 @@ export const getColumnLetter = (colIndex: number): string => {
 
 export const sanitizeSheetName = (name: string) => name.replace(/[\[\]\:\*\?\/\\]/g, '').substring(0, 31);
 
+// Friendly format keywords the model may use instead of a raw Excel number format
+const METRIC_FORMATS: Record<string, string> = {
+    number: '#,##0',
+    integer: '#,##0',
+    decimal: '#,##0.00',
+    percent: '0.00%',
+    percentage: '0.00%',
+    '%': '0.00%',
+    currency: '"$"#,##0.00',
+    days: '0 "days"',
+    date: 'yyyy-mm-dd',
+};
+
+export const resolveMetricFormat = (metric: DashboardMetric): string => {
+    if (metric.format) return METRIC_FORMATS[metric.format.trim().toLowerCase()] || metric.format;
+    const label = metric.label.toLowerCase();
+    return label.includes('%') || label.includes('rate') ? '0.00%' : '#,##0.##';
+};
+
+const findDailyHeader = (projectData: ProjectData, key: string): string | undefined =>
+    projectData.dailyColumns?.find(col => col.key.toLowerCase() === key || col.header.toLowerCase() === key)?.header;
+
+export const getDefaultDashboardMetrics = (projectData: ProjectData): DashboardMetric[] => {
+    const actualHeader = findDailyHeader(projectData, 'actual');
+    const knownActual = (projectData.actualData || []).reduce((sum, item) => sum + (Number(item.actual) || 0), 0);
+    const totalActual = actualHeader ? `SUM(DailyProductionTable[${actualHeader}])` : `${knownActual}`;
+    const end = toLocalDate(projectData.endDate);
+    const endDate = end ? `DATE(${end.getFullYear()}, ${end.getMonth() + 1}, ${end.getDate()})` : 'TODAY()';
+
+    return [
+        { label: 'Overall Goal', formula: `${projectData.goal}`, format: 'number' },
+        { label: 'Total Actual', formula: totalActual, format: 'number' },
+        { label: 'Goal vs Actual', formula: `${totalActual}-${projectData.goal}`, format: '+#,##0;-#,##0;0' },
+        { label: '% Completion', formula: `IF(${projectData.goal}=0, 0, ${totalActual}/${projectData.goal})`, format: 'percent' },
+        { label: 'Days Remaining', formula: `MAX(0, ${endDate}-TODAY())`, format: 'days' },
+    ];
+};
+
+const addDashboardSheet = (workbook: ExcelJS.Workbook, projectData: ProjectData) => {
+    const sheet = workbook.addWorksheet(sanitizeSheetName('Dashboard'));
+    const metrics = projectData.dashboardMetrics && projectData.dashboardMetrics.length > 0
+        ? projectData.dashboardMetrics
+        : getDefaultDashboardMetrics(projectData);
+
+    // Tiles are two columns wide with a narrow gutter column on either side
+    const tilesPerRow = 3;
+    sheet.columns = Array.from({ length: tilesPerRow * 3 + 1 }, (_, i) => ({ width: i % 3 === 0 ? 3 : 18 }));
+    sheet.views = [{ showGridLines: false }];
+
+    const lastColLetter = getColumnLetter(tilesPerRow * 3);
+    sheet.mergeCells(`A1:${lastColLetter}1`);
+    const titleCell = sheet.getCell('A1');
+    titleCell.value = `${projectData.name}: Dashboard`;
+    titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF006633' } };
+    titleCell.font = { color: { argb: 'FFFFFFFF' }, bold: true, size: 14 };
+    titleCell.alignment = { horizontal: 'center', vertical: 'middle' };
+    sheet.getRow(1).height = 30;
+
+    const tileBorder: Partial<ExcelJS.Borders> = {
+        top: { style: 'thin', color: { argb: 'FF70AD47' } },
+        left: { style: 'thin', color: { argb: 'FF70AD47' } },
+        bottom: { style: 'thin', color: { argb: 'FF70AD47' } },
+        right: { style: 'thin', color: { argb: 'FF70AD47' } },
+    };
+
+    metrics.forEach((metric, index) => {
+        const labelRowIndex = 3 + Math.floor(index / tilesPerRow) * 3;
+        const valueRowIndex = labelRowIndex + 1;
+        const startCol = getColumnLetter((index % tilesPerRow) * 3 + 2);
+        const endCol = getColumnLetter((index % tilesPerRow) * 3 + 3);
+
+        sheet.mergeCells(`${startCol}${labelRowIndex}:${endCol}${labelRowIndex}`);
+        const labelCell = sheet.getCell(`${startCol}${labelRowIndex}`);
+        labelCell.value = metric.label;
+        labelCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF70AD47' } };
+        labelCell.font = { color: { argb: 'FFFFFFFF' }, bold: true };
+        labelCell.alignment = { horizontal: 'center', vertical: 'middle' };
+        labelCell.border = tileBorder;
+
+        sheet.mergeCells(`${startCol}${valueRowIndex}:${endCol}${valueRowIndex}`);
+        const valueCell = sheet.getCell(`${startCol}${valueRowIndex}`);
+        valueCell.value = { formula: metric.formula.replace(/^=/, '') };
+        valueCell.numFmt = resolveMetricFormat(metric);
+        valueCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF2F2F2' } };
+        valueCell.font = { bold: true, size: 20, color: { argb: 'FF006633' } };
+        valueCell.alignment = { horizontal: 'center', vertical: 'middle' };
+        valueCell.border = tileBorder;
+        sheet.getRow(valueRowIndex).height = 42;
+    });
+
+    return sheet;
+};
+
+const addDistributionSheet = (workbook: ExcelJS.Workbook, projectData: ProjectData, days: Date[], dayTargets: number[]) => {
+    const sheet = workbook.addWorksheet(sanitizeSheetName('Target_Distribution'));
+    const distribution = projectData.distribution || DEFAULT_DISTRIBUTION;
+    sheet.columns = [
+        { key: 'date', width: 15 },
+        { key: 'target', width: 18 },
+        { key: 'cumulative', width: 18 },
+        { key: 'percent', width: 18 },
+    ];
+
+    sheet.mergeCells('A1:D1');
+    const titleCell = sheet.getCell('A1');
+    titleCell.value = `Target Distribution: ${distribution.strategy}`;
+    titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF006633' } };
+    titleCell.font = { color: { argb: 'FFFFFFFF' }, bold: true, size: 12 };
+    titleCell.alignment = { horizontal: 'center', vertical: 'middle' };
+
+    sheet.mergeCells('A2:D2');
+    const descriptionCell = sheet.getCell('A2');
+    descriptionCell.value = describeDistribution(distribution);
+    descriptionCell.alignment = { wrapText: true, vertical: 'top' };
+    sheet.getRow(2).height = 32;
+
+    const headerRow = sheet.getRow(4);
+    ['Date', 'Daily Target', 'Cumulative Target', 'Cumulative %'].forEach((header, i) => {
+        const cell = headerRow.getCell(i + 1);
+        cell.value = header;
+        cell.font = { bold: true };
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFF2CC' } };
+        cell.alignment = { horizontal: 'center' };
+    });
+
+    days.forEach((day, index) => {
+        const rowIndex = index + 5;
+        const row = sheet.getRow(rowIndex);
+        row.getCell(1).value = day;
+        row.getCell(2).value = dayTargets[index];
+        row.getCell(2).numFmt = '#,##0.00';
+        row.getCell(3).value = { formula: `SUM($B$5:B${rowIndex})` };
+        row.getCell(3).numFmt = '#,##0.00';
+        row.getCell(4).value = { formula: `IF(${projectData.goal}=0, 0, C${rowIndex}/${projectData.goal})` };
+        row.getCell(4).numFmt = '0.0%';
+    });
+
+    return sheet;
+};
+
+const addResourceSummarySheet = (workbook: ExcelJS.Workbook, projectData: ProjectData, resources: NormalizedResource[], items: any[]) => {
+    const sheet = workbook.addWorksheet(sanitizeSheetName('Resource_Summary'));
+    const unitLabel = projectData.unit || 'units';
+    const headers = [
+        { header: 'Resource', width: 22 },
+        { header: `Capacity (${unitLabel}/day)`, width: 18 },
+        { header: 'Efficiency', width: 12 },
+        { header: 'Available Days', width: 15 },
+        { header: 'Capacity Total', width: 18 },
+        { header: 'Allocated Target', width: 18 },
+        { header: 'Utilisation %', width: 15 },
+    ];
+    sheet.columns = headers.map(h => ({ width: h.width }));
+
+    const headerRow = sheet.getRow(1);
+    headers.forEach((h, i) => {
+        const cell = headerRow.getCell(i + 1);
+        cell.value = h.header;
+        cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF006633' } };
+        cell.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+    });
+    headerRow.height = 30;
+
+    resources.forEach((resource, resourceIndex) => {
+        const rowIndex = resourceIndex + 2;
+        const resourceItems = items.filter(item => item.resourceIndex === resourceIndex);
+        const availableDays = resourceItems.filter(item => item.available).length;
+        const allocated = resourceItems.reduce((sum, item) => sum + item.target, 0);
+
+        const row = sheet.getRow(rowIndex);
+        row.getCell(1).value = resource.name;
+        row.getCell(2).value = resource.capacity ?? null;
+        row.getCell(3).value = resource.efficiency;
+        row.getCell(4).value = availableDays;
+        row.getCell(5).value = resource.capacity !== undefined ? { formula: `B${rowIndex}*C${rowIndex}*D${rowIndex}` } : null;
+        row.getCell(6).value = allocated;
+        row.getCell(7).value = resource.capacity !== undefined ? { formula: `IF(E${rowIndex}=0, 0, F${rowIndex}/E${rowIndex})` } : null;
+
+        row.getCell(2).numFmt = '#,##0.##';
+        row.getCell(3).numFmt = '0.00';
+        row.getCell(5).numFmt = '#,##0.##';
+        row.getCell(6).numFmt = '#,##0.##';
+        row.getCell(7).numFmt = '0.0%';
+    });
+
+    const totalRowIndex = resources.length + 2;
+    const totalRow = sheet.getRow(totalRowIndex);
+    totalRow.getCell(1).value = 'Total';
+    totalRow.getCell(5).value = { formula: `SUM(E2:E${totalRowIndex - 1})` };
+    totalRow.getCell(6).value = { formula: `SUM(F2:F${totalRowIndex - 1})` };
+    totalRow.getCell(5).numFmt = '#,##0.##';
+    totalRow.getCell(6).numFmt = '#,##0.##';
+    totalRow.font = { bold: true };
+    totalRow.eachCell({ includeEmpty: true }, cell => {
+        cell.border = { top: { style: 'double' } };
+    });
+
+    // Highlight resources planned above their capacity
+    sheet.addConditionalFormatting({
+        ref: `G2:G${totalRowIndex - 1}`,
+        rules: [
+            { priority: 1, type: 'cellIs', operator: 'greaterThan', formulae: ['1'], style: { fill: { type: 'pattern', pattern: 'solid', bgColor: { argb: 'FFFFC7CE' } }, font: { color: { argb: 'FF9C0006' } } } },
+        ],
+    });
+
+    return sheet;
+};
+
+/**
+ * Actuals whose name matched no plan resource, kept visible instead of silently dropped.
+ */
+const addUnassignedSheet = (workbook: ExcelJS.Workbook, projectData: ProjectData, unassigned: UnassignedActual[]) => {
+    const sheet = workbook.addWorksheet(sanitizeSheetName(UNASSIGNED_SHEET));
+    const extraColumns = (projectData.dailyColumns || [])
+        .filter(col => !col.formula && !['date', 'name', 'actual', 'target'].includes(col.key.toLowerCase()));
+    const headers = [
+        { header: 'Date', width: 14 },
+        { header: 'Name', width: 22 },
+        { header: 'Actual', width: 12 },
+        ...extraColumns.map(col => ({ header: col.header, width: 15 })),
+        { header: 'Reason', width: 40 },
+        { header: 'Suggested Resource', width: 22 },
+        { header: 'Source', width: 30 },
+    ];
+    sheet.columns = headers.map(h => ({ width: h.width }));
+
+    const headerRow = sheet.getRow(1);
+    headers.forEach((h, i) => {
+        const cell = headerRow.getCell(i + 1);
+        cell.value = h.header;
+        cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF9C5700' } };
+        cell.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+    });
+    headerRow.height = 30;
+
+    unassigned.forEach(({ item, reason, suggestion }, index) => {
+        const row = sheet.getRow(index + 2);
+        const date = toLocalDate(item.date);
+        row.getCell(1).value = date || item.date;
+        row.getCell(1).numFmt = 'yyyy-mm-dd';
+        row.getCell(2).value = item.name;
+        row.getCell(3).value = item.actual ?? null;
+        row.getCell(3).numFmt = '#,##0.##';
+        extraColumns.forEach((col, i) => {
+            row.getCell(4 + i).value = item[col.key] ?? null;
+        });
+        row.getCell(4 + extraColumns.length).value = reason;
+        row.getCell(5 + extraColumns.length).value = suggestion || null;
+        row.getCell(6 + extraColumns.length).value = formatActualSource(item) || null;
+    });
+
+    const totalRow = sheet.getRow(unassigned.length + 2);
+    totalRow.getCell(1).value = 'Total';
+    totalRow.getCell(3).value = { formula: `SUM(C2:C${unassigned.length + 1})` };
+    totalRow.getCell(3).numFmt = '#,##0.##';
+    totalRow.font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    return sheet;
+};
+
+export const FORECAST_SHEET = 'Forecast';
+
+/**
+ * Where the project is heading on its actuals so far: a summary, each forecasting method with its band,
+ * and the cumulative lines behind the forecast chart, which is returned.
+ */
+const addForecastSheet = (workbook: ExcelJS.Workbook, projectData: ProjectData, forecast: ProjectForecast): ChartSpec => {
+    const sheet = workbook.addWorksheet(sanitizeSheetName(FORECAST_SHEET));
+    const unitLabel = projectData.unit || 'units';
+    const band = `${Math.round(forecast.confidence * 100)}%`;
+    sheet.columns = [
+        { width: 34 }, { width: 15 }, { width: 17 }, { width: 17 }, { width: 15 }, { width: 16 }, { width: 15 }, { width: 15 }, { width: 14 },
+    ];
+
+    sheet.mergeCells('A1:I1');
+    const titleCell = sheet.getCell('A1');
+    titleCell.value = `Forecast as of ${forecast.asOf}`;
+    titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF006633' } };
+    titleCell.font = { color: { argb: 'FFFFFFFF' }, bold: true, size: 12 };
+    titleCell.alignment = { horizontal: 'center', vertical: 'middle' };
+
+    sheet.mergeCells('A2:I2');
+    const noteCell = sheet.getCell('A2');
+    noteCell.value = `Projected from actuals reported up to ${forecast.asOf}. Working days without a report count as zero. `
+        + `Low and high columns are the ${band} band around each method's daily pace.`;
+    noteCell.alignment = { wrapText: true, vertical: 'top' };
+    sheet.getRow(2).height = 32;
+
+    const summary: [string, number | string | null, string?][] = [
+        ['Goal', forecast.goal, '#,##0.##'],
+        ['Actual to Date', forecast.actualToDate, '#,##0.##'],
+        ['Target to Date', forecast.targetToDate, '#,##0.##'],
+        ['Variance to Plan', forecast.actualToDate - forecast.targetToDate, '+#,##0.##;-#,##0.##;0'],
+        ['Remaining', forecast.remaining, '#,##0.##'],
+        ['Working Days Left', forecast.workingDaysLeft, '0'],
+        [`Required Daily Rate (${unitLabel}/day)`, forecast.requiredDailyRate, '#,##0.##'],
+        ['Status (at the recent pace)', describeForecastStatus(forecast.status)],
+    ];
+    summary.forEach(([label, value, numFmt], i) => {
+        const row = sheet.getRow(i + 4);
+        row.getCell(1).value = label;
+        row.getCell(1).font = { bold: true };
+        row.getCell(2).value = value;
+        if (numFmt) row.getCell(2).numFmt = numFmt;
+    });
+    const statusCell = sheet.getCell(`B${summary.length + 3}`);
+    const statusColors = { complete: 'FFC6E0B4', 'on-track': 'FFC6E0B4', 'at-risk': 'FFFFEB9C', behind: 'FFFFC7CE' };
+    statusCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: statusColors[forecast.status] } };
+    statusCell.font = { bold: true };
+
+    const methodHeaderRow = summary.length + 5;
+    const methodHeaders = ['Method', `Daily Rate (${unitLabel})`, 'Projected by End Date', `Low (${band})`, `High (${band})`, 'Goal Reached', 'Earliest', 'Latest', 'Meets Goal'];
+    const styleHeader = (rowIndex: number, headers: string[]) => {
+        const row = sheet.getRow(rowIndex);
+        headers.forEach((header, i) => {
+            const cell = row.getCell(i + 1);
+            cell.value = header;
+            cell.font = { bold: true };
+            cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFF2CC' } };
+            cell.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+        });
+        row.height = 30;
+    };
+    styleHeader(methodHeaderRow, methodHeaders);
+    forecast.methods.forEach((method, i) => {
+        const row = sheet.getRow(methodHeaderRow + 1 + i);
+        const dates = [method.completionDate, method.completionDateEarliest, method.completionDateLatest].map(date => (date ? toLocalDate(date) : null));
+        row.values = [
+            method.label,
+            method.dailyRate,
+            method.projectedTotal,
+            method.projectedTotalLow,
+            method.projectedTotalHigh,
+            dates[0] || 'Beyond horizon',
+            dates[1] || null,
+            dates[2] || null,
+            method.projectedTotal >= forecast.goal ? 'Yes' : 'No',
+        ];
+        [2, 3, 4, 5].forEach(col => { row.getCell(col).numFmt = '#,##0.##'; });
+        [6, 7, 8].forEach(col => { row.getCell(col).numFmt = 'yyyy-mm-dd'; });
+    });
+
+    const dayHeaderRow = methodHeaderRow + forecast.methods.length + 2;
+    styleHeader(dayHeaderRow, ['Date', 'Daily Actual', 'Cumulative Actual', 'Cumulative Target', ...forecast.methods.map(method => method.label)]);
+    forecast.days.forEach((day, i) => {
+        const row = sheet.getRow(dayHeaderRow + 1 + i);
+        row.values = [
+            toLocalDate(day.date),
+            day.actual,
+            day.cumulativeActual,
+            day.cumulativeTarget,
+            ...forecast.methods.map(method => day.projected[method.method]),
+        ];
+        row.getCell(1).numFmt = 'yyyy-mm-dd';
+        for (let col = 2; col <= 4 + forecast.methods.length; col++) row.getCell(col).numFmt = '#,##0.##';
+    });
+    sheet.views = [{ state: 'frozen', ySplit: dayHeaderRow }];
+
+    const firstDayRow = dayHeaderRow + 1;
+    const lastDayRow = dayHeaderRow + forecast.days.length;
+    const ref = (col: number) => {
+        const letter = getColumnLetter(col);
+        return quoteSheetRef(sheet.name, `$${letter}$${firstDayRow}:$${letter}$${lastDayRow}`);
+    };
+    return {
+        type: 'line',
+        title: 'Forecast: Cumulative Actual and Projections',
+        categories: ref(1),
+        categoryFormat: 'd-mmm',
+        series: [
+            { name: 'Cumulative Target', values: ref(4), color: 'FFB347' },
+            { name: 'Cumulative Actual', values: ref(3), color: '006633' },
+            ...forecast.methods.map((method, i) => ({ name: method.label, values: ref(5 + i), color: ['A5A5A5', '4472C4', '7030A0'][i] })),
+        ],
+        anchor: { col: 0, row: 59, width: 12, height: 18 },
+    };
+};
+
+const CHART_DATA_SHEET = 'Chart_Data';
+const CHARTS_SHEET = 'Charts';
+
+/**
+ * Writes the series behind the burn-up and per-resource charts and returns their chart specs.
+ */
+const addChartDataSheet = (workbook: ExcelJS.Workbook, projectData: ProjectData, days: Date[], dayTargets: number[], resources: NormalizedResource[], items: any[]): ChartSpec[] => {
+    const sheet = workbook.addWorksheet(sanitizeSheetName(CHART_DATA_SHEET));
+    const actualHeader = findDailyHeader(projectData, 'actual');
+    const lastDayRow = days.length + 1;
+
+    sheet.columns = [
+        { header: 'Date', width: 15 },
+        { header: 'Daily Target', width: 15 },
+        { header: 'Daily Actual', width: 15 },
+        { header: 'Cumulative Target', width: 18 },
+        { header: 'Cumulative Actual', width: 18 },
+        { header: '', width: 4 },
+        { header: 'Week', width: 10 },
+        ...resources.map(r => ({ header: r.name, width: 15 })),
+    ];
+    sheet.getRow(1).font = { bold: true };
+
+    days.forEach((day, index) => {
+        const rowIndex = index + 2;
+        const row = sheet.getRow(rowIndex);
+        const knownActual = items
+            .filter(item => item.dayIndex === index)
+            .reduce((sum, item) => sum + (Number(item.actual) || 0), 0);
+        row.getCell(1).value = day;
+        row.getCell(1).numFmt = 'yyyy-mm-dd';
+        row.getCell(2).value = dayTargets[index];
+        row.getCell(3).value = actualHeader
+            ? { formula: `SUMIFS(DailyProductionTable[${actualHeader}], DailyProductionTable[Date], A${rowIndex})` }
+            : knownActual;
+        row.getCell(4).value = { formula: `SUM($B$2:B${rowIndex})` };
+        // #N/A leaves a gap in the line chart for days that haven't happened yet
+        row.getCell(5).value = { formula: `IF(A${rowIndex}>TODAY(), NA(), SUM($C$2:C${rowIndex}))` };
+        [2, 3, 4, 5].forEach(col => { row.getCell(col).numFmt = '#,##0.##'; });
+    });
+
+    // Weekly target per resource, for the stacked bar
+    const weekCount = Math.floor(differenceInCalendarDays(days[days.length - 1], days[0]) / 7) + 1;
+    const weeklyTargets = Array.from({ length: weekCount }, () => resources.map(() => 0));
+    items.forEach(item => {
+        const week = Math.floor(differenceInCalendarDays(item.date, days[0]) / 7);
+        weeklyTargets[week][item.resourceIndex] += item.target;
+    });
+    weeklyTargets.forEach((targets, week) => {
+        const row = sheet.getRow(week + 2);
+        row.getCell(7).value = week + 1;
+        targets.forEach((target, resourceIndex) => {
+            row.getCell(8 + resourceIndex).value = target;
+            row.getCell(8 + resourceIndex).numFmt = '#,##0.##';
+        });
+    });
+    const lastWeekRow = weekCount + 1;
+    const ref = (col: number, lastRow: number) => {
+        const letter = getColumnLetter(col);
+        return quoteSheetRef(sheet.name, `$${letter}$2:$${letter}$${lastRow}`);
+    };
+
+    return [
+        {
+            type: 'line',
+            title: 'Burn-up: Cumulative Target vs Actual',
+            categories: ref(1, lastDayRow),
+            categoryFormat: 'd-mmm',
+            series: [
+                { name: 'Cumulative Target', values: ref(4, lastDayRow), color: 'FFB347' },
+                { name: 'Cumulative Actual', values: ref(5, lastDayRow), color: '006633' },
+            ],
+            anchor: { col: 0, row: 2, width: 12, height: 18 },
+        },
+        {
+            type: 'bar',
+            title: 'Weekly Target by Resource',
+            categories: ref(7, lastWeekRow),
+            categoryFormat: '"Week "0',
+            stacked: true,
+            series: resources.map((resource, resourceIndex) => ({ name: resource.name, values: ref(8 + resourceIndex, lastWeekRow) })),
+            anchor: { col: 0, row: 40, width: 12, height: 18 },
+        },
+    ];
+};
+
+const buildPivotChart = (sheetName: string, headers: string[], weekCount: number): ChartSpec | null => {
+    if (weekCount === 0) return null;
+    const byKeyword = (keyword: string) => headers.findIndex(h => h.toLowerCase().includes(keyword) && !h.toLowerCase().includes('cumulative'));
+    const picked = [byKeyword('target'), byKeyword('actual')].filter(index => index >= 0);
+    const seriesIndexes = picked.length > 0 ? picked : headers.slice(0, 2).map((_, index) => index);
+    if (seriesIndexes.length === 0) return null;
+
+    const lastRow = weekCount + 1;
+    const ref = (col: number) => {
+        const letter = getColumnLetter(col);
+        return quoteSheetRef(sheetName, `$${letter}$2:$${letter}$${lastRow}`);
+    };
+    return {
+        type: 'bar',
+        title: 'Weekly Production',
+        categories: ref(1),
+        categoryFormat: '"Week "0',
+        // Pivot columns start after Week and Month
+        series: seriesIndexes.map(index => ({ name: headers[index], values: ref(index + 3) })),
+        anchor: { col: 0, row: 21, width: 12, height: 18 },
+    };
+};
+
+export const getPlanFileName = (projectData: Pick<ProjectData, 'name'>) =>
+    `${projectData.name.replace(/\s+/g, '_')}_Production_Planning.xlsx`;
+
 export const generateExcelFile = async (projectData: ProjectData): Promise<ExcelJS.Buffer> => {
     const workbook = new ExcelJS.Workbook();
-    workbook.creator = 'Production Plan Agent';
+    workbook.creator = PLAN_CREATOR;
     workbook.created = new Date();
+    // Chart caches and formula results are computed by Excel/LibreOffice on open
+    workbook.calcProperties.fullCalcOnLoad = true;
 
-    const start = new Date(projectData.startDate);
-    const end = new Date(projectData.endDate);
+    // Local days, so a yyyy-MM-dd start is not read as UTC midnight and shifted a day west of Greenwich
+    const start = toLocalDate(projectData.startDate);
+    const end = toLocalDate(projectData.endDate);
 
-    if (!isValid(start) || !isValid(end)) {
+    if (!start || !end || !isValid(start) || !isValid(end)) {
         throw new Error("Invalid dates provided");
     }
 
     const days = eachDayOfInterval({ start, end });
+    const resources = normalizeResources(projectData.resources);
     const scheduleItems: any[] = [];
 
-    days.forEach(day => {
-        projectData.resources.forEach(resource => {
+    // Actuals keyed by calendar day and resource; dates are read as local days so yyyy-MM-dd never shifts across time zones.
+    // Names are reconciled first so "Team-A" or a confirmed alias lands on "Team A".
+    const { matched: matchedActuals, unassigned } = reconcileProjectActuals(projectData);
+    const actualsByDay = new Map<string, ActualDataItem>();
+    matchedActuals.forEach(item => {
+        const itemDate = toLocalDate(item.date);
+        if (!itemDate || !item.name) return;
+        const key = `${format(itemDate, 'yyyy-MM-dd')}|${item.name.toLowerCase()}`;
+        const existing = actualsByDay.get(key);
+        // Two spellings of the same resource on one day add up rather than overwrite each other
+        const actual = existing && existing.actual !== null && item.actual !== null ? existing.actual + item.actual : item.actual ?? existing?.actual ?? null;
+        actualsByDay.set(key, existing ? { ...existing, ...item, actual } : item);
+    });
+
+    days.forEach((day, dayIndex) => {
+        resources.forEach((spec, resourceIndex) => {
+            const resource = spec.name;
             // Find actual data if it exists
-            let actualMatch: ActualDataItem | null = null;
-            if (projectData.actualData) {
-                actualMatch = projectData.actualData.find(item => {
-                    const itemDate = new Date(item.date);
-                    return isValid(itemDate) && isSameDay(itemDate, day) && item.name.toLowerCase() === resource.toLowerCase();
-                }) || null;
-            }
+            const actualMatch = actualsByDay.get(`${format(day, 'yyyy-MM-dd')}|${resource.toLowerCase()}`) || null;
 
             const item: any = {
                 date: day,
+                dayIndex,
                 name: resource,
-                actual: actualMatch ? actualMatch.actual : null
+                resourceIndex,
+                weight: spec.weight,
+                available: isResourceAvailable(day, resource, projectData.calendar) && isWithinResourceDates(day, spec),
+                actual: actualMatch ? actualMatch.actual ?? null : null
             };
 
             // Add extra daily data if defined
             if (projectData.dailyColumns && actualMatch) {
                 projectData.dailyColumns.forEach(col => {
-                    item[col.key] = actualMatch![col.key] || null;
+                    item[col.key] = actualMatch![col.key] ?? null;
                 });
             }
 
@@ -57,24 +576,14 @@ export const generateExcelFile = async (projectData: ProjectData): Promise<Excel
         });
     });
 
-    const totalItems = scheduleItems.length;
-
-    // --- LPB Target Distribution Logic ---
-    const weights = scheduleItems.map((_, index) => {
-        const t = index / (totalItems - 1 || 1);
-        if (t < 0.25) {
-            return 0.3 + (0.6 - 0.3) * (t / 0.25);
-        } else if (t < 0.75) {
-            return 0.6 + (1.0 - 0.6) * ((t - 0.25) / 0.5);
-        } else {
-            return 1.0;
-        }
-    });
+    // --- Target Distribution: shape the goal over working days, then split each day by available resource capacity ---
+    const distribution = projectData.distribution || DEFAULT_DISTRIBUTION;
+    const availableWeights = getAvailableWeights(days, resources, projectData.calendar);
+    const dayTargets = getDayTargets(projectData.goal, days, availableWeights, distribution);
 
-    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-    const itemsWithTargets = scheduleItems.map((item, index) => ({
+    const itemsWithTargets = scheduleItems.map(item => ({
         ...item,
-        target: (weights[index] / totalWeight) * projectData.goal
+        target: item.available ? dayTargets[item.dayIndex] * item.weight / availableWeights[item.dayIndex] : 0
     }));
 
     // --- Sheet 1: Daily_Production_Key ---
@@ -223,6 +732,7 @@ export const generateExcelFile = async (projectData: ProjectData): Promise<Excel
         const rowIndex = index + 5;
         const dateObj = new Date(dateIso);
         const row = sheetPlan.getRow(rowIndex);
+        const isNonWorking = !isWorkingDay(dateObj, projectData.calendar);
         dynamicColumns.forEach((col, colIdx) => {
             const cell = row.getCell(colIdx + 1);
             if (col.key === 'date') cell.value = dateObj;
@@ -230,7 +740,12 @@ export const generateExcelFile = async (projectData: ProjectData): Promise<Excel
             else if (col.formula) cell.value = { formula: col.formula.replace(/{rowIndex}/g, rowIndex.toString()) };
             cell.border = { top: { style: 'thin' }, left: { style: 'thin' }, bottom: { style: 'thin' }, right: { style: 'thin' } };
             if (col.header.toLowerCase().includes('rate') || col.header.toLowerCase().includes('%')) cell.numFmt = '0.00%';
+            if (isNonWorking) {
+                cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFD9D9D9' } };
+                cell.font = { italic: true, color: { argb: 'FF808080' } };
+            }
         });
+        if (isNonWorking) row.getCell(1).note = describeNonWorkingDay(dateObj, projectData.calendar);
     });
 
     // Grand Total
@@ -301,5 +816,38 @@ export const generateExcelFile = async (projectData: ProjectData): Promise<Excel
         rows: [] // rows already added
     });
 
-    return await workbook.xlsx.writeBuffer();
+    // --- Sheet 4: Dashboard ---
+    addDashboardSheet(workbook, projectData);
+
+    // --- Sheet 5: Target Distribution ---
+    addDistributionSheet(workbook, projectData, days, dayTargets);
+
+    // --- Sheet 6: Resource Summary ---
+    addResourceSummarySheet(workbook, projectData, resources, itemsWithTargets);
+
+    // --- Unassigned actuals, only when some names matched no resource ---
+    if (unassigned.length > 0) addUnassignedSheet(workbook, projectData, unassigned);
+
+    // --- Forecast, once there are actuals to project from ---
+    const forecast = forecastProject(projectData);
+    const forecastChart = forecast ? addForecastSheet(workbook, projectData, forecast) : null;
+
+    // --- Sheets 7 & 8: Charts and their data ---
+    const sheetCharts = workbook.addWorksheet(sanitizeSheetName(CHARTS_SHEET));
+    sheetCharts.mergeCells('A1:L1');
+    const chartsTitle = sheetCharts.getCell('A1');
+    chartsTitle.value = `${projectData.name}: Charts`;
+    chartsTitle.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF006633' } };
+    chartsTitle.font = { color: { argb: 'FFFFFFFF' }, bold: true, size: 12 };
+    chartsTitle.alignment = { horizontal: 'center', vertical: 'middle' };
+
+    const [burnUpChart, resourceChart] = addChartDataSheet(workbook, projectData, days, dayTargets, resources, itemsWithTargets);
+    const pivotChart = buildPivotChart(sheetPivot.name, pivotColumns.map(col => col.header), uniqueWeeks.length);
+    const charts = [burnUpChart, pivotChart, resourceChart, forecastChart].filter((chart): chart is ChartSpec => chart !== null);
+
+    // Embedded definition so an uploaded copy can be refreshed without re-running the interview
+    addPlanMetadataSheet(workbook, projectData);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return await addChartsToWorkbook(buffer, sheetCharts.name, charts);
 };
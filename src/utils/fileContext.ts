@@ -0,0 +1,189 @@
+import { ActualDataItem, DateOrder, SourceTable } from '../types/production';
+import { detectDateOrder, isBlankValue, parseDateValue, parseNumberValue } from './importNormalization';
+
+// Describes uploaded files to the model within a token budget. Tables become a schema summary, coverage
+// and totals plus a few representative rows; the model asks for anything else through query_file_rows.
+
+export const DEFAULT_FILE_CONTEXT_TOKENS = 6000;
+const MIN_FILE_TOKENS = 400; // Each file gets at least this much, however many are attached
+const MAX_SAMPLE_ROWS = 20;
+const MAX_LISTED_NAMES = 40;
+export const MAX_QUERY_ROWS = 100;
+
+/**
+ * Rough token count, at about four characters per token.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Splits a total budget across the files of one message.
+ */
+export const budgetPerFile = (totalTokens: number, fileCount: number): number =>
+    Math.max(MIN_FILE_TOKENS, Math.floor(totalTokens / Math.max(1, fileCount)));
+
+/**
+ * Keeps the start and end of long text, noting how much was left out of the middle.
+ */
+export const fitTextToBudget = (text: string, budgetTokens: number): string => {
+    if (estimateTokens(text) <= budgetTokens) return text;
+    const keep = budgetTokens * 4;
+    const head = text.slice(0, Math.floor(keep * 0.75));
+    const tail = text.slice(text.length - Math.floor(keep * 0.2));
+    return `${head}\n\n[… ${(text.length - head.length - tail.length).toLocaleString()} characters omitted to fit the context budget …]\n\n${tail}`;
+};
+
+type ColumnKind = 'number' | 'date' | 'text';
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const describeColumn = (table: SourceTable, header: string): string => {
+    const values = table.rows.map(row => row[header]).filter(value => !isBlankValue(value));
+    const blanks = table.rows.length - values.length;
+    const blankNote = blanks > 0 ? `, ${blanks} blank` : '';
+    if (values.length === 0) return `- ${header}: empty`;
+
+    const numbers = values.map(value => parseNumberValue(value).value).filter((n): n is number => n !== null);
+    const { order } = detectDateOrder(values);
+    const dates = values
+        .filter(value => value instanceof Date || (typeof value === 'string' && parseNumberValue(value).value === null))
+        .map(value => parseDateValue(value, order).value)
+        .filter((d): d is string => d !== null);
+    const kind: ColumnKind = dates.length / values.length >= 0.8 ? 'date' : numbers.length / values.length >= 0.8 ? 'number' : 'text';
+
+    if (kind === 'number') {
+        const total = numbers.reduce((sum, n) => sum + n, 0);
+        const min = numbers.reduce((a, b) => Math.min(a, b));
+        const max = numbers.reduce((a, b) => Math.max(a, b));
+        return `- ${header} (number): ${formatNumber(min)} to ${formatNumber(max)}, total ${formatNumber(total)}${blankNote}`;
+    }
+    if (kind === 'date') {
+        const sorted = [...dates].sort();
+        return `- ${header} (date): ${sorted[0]} to ${sorted[sorted.length - 1]}, ${new Set(dates).size} distinct${blankNote}`;
+    }
+    const distinct = Array.from(new Set(values.map(value => String(value).trim())));
+    const examples = distinct.slice(0, 5).map(value => value.length > 30 ? `${value.slice(0, 30)}…` : value).join(', ');
+    return `- ${header} (text): ${distinct.length} distinct, e.g. ${examples}${blankNote}`;
+};
+
+// Evenly spaced from the first row to the last, in file order
+const pickSampleRows = (rowCount: number, sampleSize: number): number[] => {
+    if (rowCount <= sampleSize) return Array.from({ length: rowCount }, (_, i) => i);
+    const step = (rowCount - 1) / Math.max(1, sampleSize - 1);
+    return Array.from({ length: sampleSize }, (_, i) => Math.round(i * step));
+};
+
+const csvCell = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    return text.replace(/[\n\r,]/g, ' ');
+};
+
+/**
+ * Actuals-level facts: which days are covered, who reported and how much each produced.
+ */
+const describeActuals = (actuals: ActualDataItem[], maxNames: number): string[] => {
+    if (actuals.length === 0) return [];
+    const days = Array.from(new Set(actuals.map(item => item.date))).sort();
+    const totals = new Map<string, number>();
+    actuals.forEach(item => totals.set(item.name, (totals.get(item.name) || 0) + (item.actual || 0)));
+    const byTotal = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+    const more = byTotal.length > maxNames ? ` and ${byTotal.length - maxNames} more` : '';
+    return [
+        `Date coverage: ${days[0]} to ${days[days.length - 1]}, ${days.length} day(s) with data`,
+        `Resources (${byTotal.length}) with their actual totals: ${byTotal.slice(0, maxNames).map(([name, total]) => `${name} ${formatNumber(total)}`).join('; ')}${more}`,
+    ];
+};
+
+/**
+ * Summarises a table for the prompt: its columns with types and ranges, coverage and per-resource totals
+ * from the mapped actuals, and as many representative rows as the budget allows.
+ */
+export const summarizeTable = (
+    table: SourceTable,
+    fileName: string,
+    options: { actuals?: ActualDataItem[]; budgetTokens?: number } = {},
+): string => {
+    const budget = options.budgetTokens ?? DEFAULT_FILE_CONTEXT_TOKENS;
+    const rowCount = table.rows.length;
+    const header = `\n\n**File Content (${fileName}):** ${rowCount.toLocaleString()} rows × ${table.headers.length} columns. `
+        + `A summary follows; call query_file_rows with file "${fileName}" for specific rows.`;
+    const columns = ['Columns:', ...table.headers.map(h => describeColumn(table, h))].join('\n');
+
+    // Fewer names, then fewer sample rows, until everything fits
+    for (const maxNames of [MAX_LISTED_NAMES, 10]) {
+        const facts = describeActuals(options.actuals || [], maxNames).join('\n');
+        const base = [header, columns, facts].filter(Boolean).join('\n');
+        for (let sampleSize = Math.min(MAX_SAMPLE_ROWS, rowCount); sampleSize >= 0; sampleSize = sampleSize > 5 ? sampleSize - 5 : sampleSize - 1) {
+            const sample = pickSampleRows(rowCount, sampleSize)
+                .map(index => table.headers.map(h => csvCell(table.rows[index][h])).join(','));
+            const text = sampleSize > 0
+                ? `${base}\nSample rows (${sampleSize} of ${rowCount.toLocaleString()}):\n\`\`\`csv\n${[table.headers.join(','), ...sample].join('\n')}\n\`\`\``
+                : base;
+            if (estimateTokens(text) <= budget) return text;
+        }
+    }
+    return fitTextToBudget(`${header}\n${columns}`, budget);
+};
+
+export interface RowFilter {
+    column: string;
+    op: 'equals' | 'contains' | 'gte' | 'lte';
+    value: string | number;
+}
+
+export interface RowQuery {
+    filters?: RowFilter[];
+    columns?: string[];
+    offset?: number;
+    limit?: number;
+}
+
+// Numbers compare as numbers; dates (in the column's own order, against ISO filter values) as days
+const compareValues = (raw: unknown, target: string | number, dateOrder: DateOrder): number | null => {
+    const number = parseNumberValue(raw).value;
+    const targetNumber = parseNumberValue(target).value;
+    if (number !== null && targetNumber !== null && !(raw instanceof Date)) return number - targetNumber;
+    const date = parseDateValue(raw, dateOrder).value;
+    const targetDate = parseDateValue(target, 'YMD').value;
+    if (date && targetDate) return date.localeCompare(targetDate);
+    return null;
+};
+
+const matchesFilter = (row: Record<string, any>, filter: RowFilter, dateOrder: DateOrder): boolean => {
+    const raw = row[filter.column];
+    if (filter.op === 'equals' || filter.op === 'contains') {
+        if (isBlankValue(raw)) return false;
+        const text = csvCell(raw).trim().toLowerCase();
+        const target = String(filter.value).trim().toLowerCase();
+        if (filter.op === 'contains') return text.includes(target);
+        return text === target || compareValues(raw, filter.value, dateOrder) === 0;
+    }
+    const comparison = compareValues(raw, filter.value, dateOrder);
+    if (comparison === null) return false;
+    return filter.op === 'gte' ? comparison >= 0 : comparison <= 0;
+};
+
+/**
+ * Filters a table's rows for the query_file_rows tool. Row numbers count data rows from 1.
+ */
+export const queryTableRows = (table: SourceTable, query: RowQuery) => {
+    const unknown = [...(query.filters || []).map(f => f.column), ...(query.columns || [])].filter(c => !table.headers.includes(c));
+    if (unknown.length > 0) {
+        return { error: `Unknown column(s): ${unknown.join(', ')}`, columns: table.headers };
+    }
+    const dateOrders = new Map((query.filters || []).map(f => [f.column, detectDateOrder(table.rows.map(row => row[f.column])).order]));
+    const matches = table.rows
+        .map((row, index) => ({ row, index }))
+        .filter(({ row }) => (query.filters || []).every(filter => matchesFilter(row, filter, dateOrders.get(filter.column)!)));
+    const offset = Math.max(0, query.offset || 0);
+    const limit = Math.min(MAX_QUERY_ROWS, Math.max(1, query.limit || 20));
+    const columns = query.columns?.length ? query.columns : table.headers;
+    return {
+        totalMatches: matches.length,
+        offset,
+        rows: matches.slice(offset, offset + limit).map(({ row, index }) => ({
+            row: index + 1,
+            ...Object.fromEntries(columns.map(c => [c, csvCell(row[c])])),
+        })),
+    };
+};
@@ -3,59 +3,89 @@ import ExcelJS from 'exceljs';
 import * as mammoth from 'mammoth';
 import * as pdfjsLib from 'pdfjs-dist';
 import JSZip from 'jszip';
-import { ActualDataItem, FileAttachment } from '../types/production';
+import { ActualDataItem, FileAttachment, Holiday, ProjectData, SourceTable } from '../types/production';
+import { applyColumnMapping, guessColumnMapping, hasMappableColumns } from './columnMapping';
+import { PositionedText, describeDocumentTables, tablesFromHtml, tablesFromTextItems } from './documentTables';
+import { parseHolidayRows } from './workingCalendar';
+import { readGeneratedPlan } from './planImport';
+import { getResourceNames } from './resources';
 
 // Set worker source for PDF.js
 // Use unpkg as it mirrors npm versions reliably. Note the .mjs extension for v4+
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
 
-const generateMetadata = (data: any[], fileName: string): string => {
-    if (!data || data.length === 0) return `File ${fileName} is empty.`;
-    
-    // Get all unique headers from all rows (in case of inconsistent CSV)
-    const headers = Array.from(new Set(data.flatMap(Object.keys)));
-    
-    // Limit to 1000 rows for performance/context safety
-    const slicedData = data.slice(0, 1000);
-    const rowCount = data.length;
-    
-    const csvRows = slicedData.map(row => {
-        return headers.map(header => {
-            const val = row[header];
-            // Simple CSV escape: replace newlines and commas
-            return val === null || val === undefined ? '' : String(val).replace(/[\n\r,]/g, ' ');
-        }).join(',');
-    });
-    
-    const csvString = [headers.join(','), ...csvRows].join('\n');
-    
-    return `\n\n**File Content (${fileName}):**\n\`\`\`csv\n${csvString}\n\`\`\`\n${rowCount > 1000 ? `\n(Showing first 1000 of ${rowCount} rows)` : ''}`;
+// Best-guess actuals so the upload is usable before (or without) the mapping dialog
+const extractActuals = (table: SourceTable): ActualDataItem[] => {
+    const mapping = guessColumnMapping(table);
+    return hasMappableColumns(mapping) ? applyColumnMapping(table, mapping).rows : [];
 };
 
-export const parseCSV = (file: File): Promise<{ data: ActualDataItem[]; metadata: string }> => {
+const describeHolidays = (holidays: Holiday[]): string =>
+    holidays.length > 0
+        ? `\n(Detected ${holidays.length} holiday date(s) in this file; they will be added to the project's working calendar.)`
+        : '';
+
+export const parseCSV = (file: File): Promise<{ data: ActualDataItem[]; metadata: string; holidays: Holiday[]; table: SourceTable }> => {
     return new Promise((resolve, reject) => {
         Papa.parse(file, {
             header: true,
             skipEmptyLines: true,
             complete: (results) => {
-                // Generate metadata from the raw parsed data (all columns)
-                const metadata = generateMetadata(results.data as any[], file.name);
+                // The table itself is summarised for the model on the server, within its context budget
+                const holidays = parseHolidayRows(results.data as any[]);
+                const metadata = describeHolidays(holidays);
 
                 // Extract specific production data if available
-                const parsedData: ActualDataItem[] = results.data.map((row: any) => ({
-                    date: row.Date || row.date || '',
-                    name: row.Name || row.name || '',
-                    actual: parseFloat(row.Actual || row.actual || '0')
-                })).filter(item => item.date && item.name);
-
-                resolve({ data: parsedData, metadata });
+                const table: SourceTable = { headers: results.meta.fields || [], rows: results.data as any[], fileName: file.name };
+                resolve({ data: extractActuals(table), metadata, holidays, table });
             },
             error: (error) => reject(error)
         });
     });
 };
 
-export const parseExcel = async (file: File): Promise<{ data: ActualDataItem[]; metadata: string }> => {
+const readWorksheet = (worksheet: ExcelJS.Worksheet, fileName: string): SourceTable => {
+    const jsonData: any[] = [];
+    const headers: string[] = [];
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+        headers[colNumber] = cell.value?.toString() || '';
+    });
+
+    worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return;
+        const rowData: any = {};
+        row.eachCell((cell, colNumber) => {
+            const val = cell.value;
+            // Handle ExcelJS cell types (e.g. formulas, rich text) if necessary, 
+            // but usually cell.value is sufficient for basic data.
+            // For dates, ExcelJS returns Date objects.
+            rowData[headers[colNumber]] = val && typeof val === 'object' && 'result' in val ? val.result : val;
+        });
+        jsonData.push(rowData);
+    });
+    return { headers: headers.filter(Boolean), rows: jsonData, fileName, sheet: worksheet.name };
+};
+
+/**
+ * Narrows a workbook or report upload to one of its sheets or tables, with that table's content, actuals and
+ * holidays. The first one chosen also keeps the upload's own description, e.g. a report's text.
+ */
+export const sheetAttachment = (attachment: FileAttachment, table: SourceTable, isFirst: boolean): FileAttachment => {
+    const name = `${attachment.name} › ${table.sheet}`;
+    const holidays = parseHolidayRows(table.rows);
+    return {
+        ...attachment,
+        id: `${attachment.id}|${table.sheet}`,
+        name,
+        table,
+        sheets: undefined,
+        metadata: (isFirst ? attachment.metadata || '' : '') + describeHolidays(holidays),
+        parsedData: extractActuals(table),
+        holidays,
+    };
+};
+
+export const parseExcel = async (file: File): Promise<{ data: ActualDataItem[]; metadata: string; holidays: Holiday[]; table?: SourceTable; sheets?: SourceTable[]; importedPlan?: ProjectData }> => {
     const reader = new FileReader();
     return new Promise((resolve, reject) => {
         reader.onload = async (e) => {
@@ -63,40 +93,37 @@ export const parseExcel = async (file: File): Promise<{ data: ActualDataItem[];
                 const buffer = e.target?.result as ArrayBuffer;
                 const workbook = new ExcelJS.Workbook();
                 await workbook.xlsx.load(buffer);
-                const worksheet = workbook.getWorksheet(1);
-                if (!worksheet) {
-                    resolve({ data: [], metadata: "" });
+
+                // A workbook this app generated: restore its definition and the actuals entered since
+                const imported = readGeneratedPlan(workbook);
+                if (imported) {
+                    const { project, actuals } = imported;
+                    const metadata = `\n\n**File Content (${file.name}):**\nThis is a production plan previously generated for "${project.name}" `
+                        + `(goal ${project.goal} ${project.unit}, ${project.startDate} to ${project.endDate}, resources: ${getResourceNames(project.resources).join(', ')}). `
+                        + `It contains ${actuals.length} actual entries. The project definition has been restored and the plan refreshed.`;
+                    resolve({ data: actuals, metadata, holidays: [], importedPlan: project });
                     return;
                 }
 
-                const jsonData: any[] = [];
-                const headers: string[] = [];
-                worksheet.getRow(1).eachCell((cell, colNumber) => {
-                    headers[colNumber] = cell.value?.toString() || '';
-                });
-
-                worksheet.eachRow((row, rowNumber) => {
-                    if (rowNumber === 1) return;
-                    const rowData: any = {};
-                    row.eachCell((cell, colNumber) => {
-                        const val = cell.value;
-                        // Handle ExcelJS cell types (e.g. formulas, rich text) if necessary, 
-                        // but usually cell.value is sufficient for basic data.
-                        // For dates, ExcelJS returns Date objects.
-                        rowData[headers[colNumber]] = val && typeof val === 'object' && 'result' in val ? val.result : val;
-                    });
-                    jsonData.push(rowData);
-                });
-
-                const metadata = generateMetadata(jsonData, file.name);
-
-                const parsedData: ActualDataItem[] = jsonData.map((row: any) => ({
-                    date: row.Date || row.date || '',
-                    name: row.Name || row.name || '',
-                    actual: parseFloat(row.Actual || row.actual || '0')
-                })).filter(item => item.date && item.name);
-
-                resolve({ data: parsedData, metadata });
+                // Every sheet with data; teams often keep one sheet per line or per week
+                const sheets = workbook.worksheets
+                    .filter(worksheet => worksheet.state === 'visible')
+                    .map(worksheet => readWorksheet(worksheet, file.name))
+                    .filter(table => table.rows.length > 0);
+                if (sheets.length === 0) {
+                    resolve({ data: [], metadata: "", holidays: [] });
+                    return;
+                }
+
+                if (sheets.length > 1) {
+                    // Content is described per sheet once the user has picked which ones to import
+                    const metadata = `\n\n**File Content (${file.name}):**\nA workbook with ${sheets.length} sheets: ${sheets.map(s => s.sheet).join(', ')}.`;
+                    resolve({ data: [], metadata, holidays: [], table: sheets[0], sheets });
+                    return;
+                }
+                const [table] = sheets;
+                const holidays = parseHolidayRows(table.rows);
+                resolve({ data: extractActuals(table), metadata: describeHolidays(holidays), holidays, table });
             } catch (err) {
                 reject(err);
             }
@@ -105,25 +132,43 @@ export const parseExcel = async (file: File): Promise<{ data: ActualDataItem[];
     });
 };
 
-export const parsePDF = async (file: File): Promise<string> => {
+export const parsePDF = async (file: File): Promise<{ metadata: string; tables: SourceTable[] }> => {
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     let fullText = '';
+    const pages: PositionedText[][] = [];
 
     for (let i = 1; i <= pdf.numPages; i++) {
         const page = await pdf.getPage(i);
         const textContent = await page.getTextContent();
         const pageText = textContent.items.map((item: any) => item.str).join(' ');
         fullText += `\n--- Page ${i} ---\n${pageText}`;
+        // Positions let tables be rebuilt; transform[4] and [5] are the x and baseline y of each text run
+        pages.push(textContent.items
+            .filter((item: any) => 'str' in item)
+            .map((item: any) => ({ text: item.str, x: item.transform[4], y: item.transform[5], width: item.width, height: item.height || Math.abs(item.transform[3]) })));
     }
 
-    return `\n\n**File Content (${file.name}):**\n\`\`\`text\n${fullText}\n\`\`\``;
+    const tables = tablesFromTextItems(pages, file.name);
+    return { metadata: `\n\n**File Content (${file.name}):**\n\`\`\`text\n${fullText}\n\`\`\`${describeDocumentTables(tables)}`, tables };
 };
 
-export const parseDOCX = async (file: File): Promise<string> => {
+export const parseDOCX = async (file: File): Promise<{ metadata: string; tables: SourceTable[] }> => {
     const arrayBuffer = await file.arrayBuffer();
     const result = await mammoth.extractRawText({ arrayBuffer });
-    return `\n\n**File Content (${file.name}):**\n\`\`\`text\n${result.value}\n\`\`\``;
+    const { value: html } = await mammoth.convertToHtml({ arrayBuffer });
+    const tables = tablesFromHtml(html, file.name);
+    return { metadata: `\n\n**File Content (${file.name}):**\n\`\`\`text\n${result.value}\n\`\`\`${describeDocumentTables(tables)}`, tables };
+};
+
+/**
+ * Feeds the tables found in a report into the actuals pipeline: one table is used directly,
+ * several are offered like the sheets of a workbook.
+ */
+const documentTableFields = (tables: SourceTable[]): Partial<FileAttachment> => {
+    if (tables.length === 0) return {};
+    const table = tables.find(t => hasMappableColumns(guessColumnMapping(t))) || tables[0];
+    return { table, parsedData: extractActuals(table), sheets: tables.length > 1 ? tables : undefined };
 };
 
 export const parsePPTX = async (file: File): Promise<string> => {
@@ -186,17 +231,17 @@ export const handleFileProcessing = async (file: File): Promise<Partial<FileAtta
         const base64Data = await processImage(file);
 
         if (isCSV) {
-            const { data: parsedData, metadata } = await parseCSV(file);
-            return { name: file.name, type: fileType, data: base64Data, file, metadata, parsedData } as any;
+            const { data: parsedData, metadata, holidays, table } = await parseCSV(file);
+            return { name: file.name, type: fileType, data: base64Data, file, metadata, parsedData, holidays, table } as any;
         } else if (isExcel) {
-            const { data: parsedData, metadata } = await parseExcel(file);
-            return { name: file.name, type: fileType, data: base64Data, file, metadata, parsedData } as any;
+            const { data: parsedData, metadata, holidays, table, sheets, importedPlan } = await parseExcel(file);
+            return { name: file.name, type: fileType, data: base64Data, file, metadata, parsedData, holidays, table, sheets, importedPlan } as any;
         } else if (isPDF) {
-            const metadata = await parsePDF(file);
-            return { name: file.name, type: fileType, data: base64Data, file, metadata } as any;
+            const { metadata, tables } = await parsePDF(file);
+            return { name: file.name, type: fileType, data: base64Data, file, metadata, ...documentTableFields(tables) } as any;
         } else if (isDOCX) {
-            const metadata = await parseDOCX(file);
-            return { name: file.name, type: fileType, data: base64Data, file, metadata } as any;
+            const { metadata, tables } = await parseDOCX(file);
+            return { name: file.name, type: fileType, data: base64Data, file, metadata, ...documentTableFields(tables) } as any;
         } else if (isPPTX) {
             const metadata = await parsePPTX(file);
             return { name: file.name, type: fileType, data: base64Data, file, metadata } as any;
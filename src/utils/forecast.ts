@@ -0,0 +1,261 @@
+import { addDays, eachDayOfInterval, format } from 'date-fns';
+import { ActualDataItem, ProjectData } from '../types/production';
+import { toLocalDate } from './importNormalization';
+import { normalizeResources } from './resources';
+import { DEFAULT_DISTRIBUTION, getAvailableWeights, getDayTargets } from './targetDistribution';
+import { isWorkingDay } from './workingCalendar';
+
+// Projects the final output and completion date from the actuals so far. Each method turns the history of
+// daily totals into an expected pace for the days ahead, with a band for how sure that pace is.
+
+export type ForecastMethod = 'run-rate' | 'moving-average' | 'linear-trend';
+
+export type ForecastStatus = 'complete' | 'on-track' | 'at-risk' | 'behind';
+
+export interface MethodForecast {
+    method: ForecastMethod;
+    label: string;
+    dailyRate: number; // Expected output per remaining working day (the trend's average over the days left)
+    projectedTotal: number; // Output by the end date
+    projectedTotalLow: number;
+    projectedTotalHigh: number;
+    completionDate: string | null; // When the goal is reached; null when not within the forecast horizon
+    completionDateEarliest: string | null;
+    completionDateLatest: string | null;
+}
+
+export interface ForecastDay {
+    date: string;
+    actual: number | null; // Reported total for the day; null after the last report
+    cumulativeActual: number | null;
+    cumulativeTarget: number;
+    projected: Record<ForecastMethod, number | null>; // Cumulative output along each method's path, from the last report on
+}
+
+export interface ProjectForecast {
+    asOf: string; // Last day with reported actuals
+    goal: number;
+    actualToDate: number;
+    targetToDate: number;
+    remaining: number;
+    workingDaysElapsed: number;
+    workingDaysLeft: number; // Up to and including the end date
+    requiredDailyRate: number | null; // Needed on each remaining working day to finish on time; null when none are left
+    status: ForecastStatus; // From the moving average, the most recent pace
+    confidence: number; // Band coverage, e.g. 0.8
+    methods: MethodForecast[];
+    days: ForecastDay[];
+}
+
+export const FORECAST_CONFIDENCE = 0.8;
+const Z_SCORE = 1.2816; // Two-sided 80% band of a normal distribution
+const MOVING_AVERAGE_DAYS = 10;
+const MIN_RELIABLE_DAYS = 5;
+const HORIZON_DAYS = 3 * 365; // How far past the last report to look for the completion date
+
+const METHOD_LABELS: Record<ForecastMethod, string> = {
+    'run-rate': 'Run-rate (average since start)',
+    'moving-average': `Moving average (last ${MOVING_AVERAGE_DAYS} working days)`,
+    'linear-trend': 'Linear trend',
+};
+
+interface DailyPace {
+    mid: number;
+    low: number;
+    high: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+const standardDeviation = (values: number[]) => {
+    if (values.length < 2) return 0;
+    const average = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / (values.length - 1));
+};
+
+// A constant pace with the standard error of its mean as the band
+const constantPace = (values: number[]) => {
+    const average = mean(values);
+    const margin = Z_SCORE * standardDeviation(values) / Math.sqrt(values.length || 1);
+    const pace: DailyPace = { mid: average, low: Math.max(0, average - margin), high: average + margin };
+    return () => pace;
+};
+
+// Least-squares line through the daily totals; the band is the confidence interval of the line itself
+const trendPace = (values: number[]) => {
+    const n = values.length;
+    const xMean = (n - 1) / 2;
+    const yMean = mean(values);
+    const sxx = values.reduce((sum, _, x) => sum + (x - xMean) ** 2, 0);
+    const slope = sxx > 0 ? values.reduce((sum, y, x) => sum + (x - xMean) * (y - yMean), 0) / sxx : 0;
+    const intercept = yMean - slope * xMean;
+    const residuals = values.map((y, x) => y - (intercept + slope * x));
+    const residualSd = n > 2 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2)) : 0;
+    return (x: number): DailyPace => {
+        const mid = intercept + slope * x;
+        const margin = Z_SCORE * residualSd * Math.sqrt(1 / n + (sxx > 0 ? (x - xMean) ** 2 / sxx : 0));
+        return { mid: Math.max(0, mid), low: Math.max(0, mid - margin), high: Math.max(0, mid + margin) };
+    };
+};
+
+const dateKey = (day: Date) => format(day, 'yyyy-MM-dd');
+
+/**
+ * Forecasts completion from the project's actuals. Null until there is a reported working day to go on.
+ */
+export const forecastProject = (projectData: Pick<ProjectData, 'goal' | 'startDate' | 'endDate' | 'resources' | 'calendar' | 'distribution'> & { actualData?: ActualDataItem[] }): ProjectForecast | null => {
+    const start = toLocalDate(projectData.startDate);
+    const end = toLocalDate(projectData.endDate);
+    if (!start || !end || start > end || !(projectData.goal > 0)) return null;
+
+    // Daily totals across every reported name, unassigned ones included: they are still output
+    const totals = new Map<string, number>();
+    (projectData.actualData || []).forEach(item => {
+        const day = toLocalDate(item.date);
+        if (!day || day < start || item.actual === null || item.actual === undefined) return;
+        totals.set(dateKey(day), (totals.get(dateKey(day)) || 0) + (Number(item.actual) || 0));
+    });
+    if (totals.size === 0) return null;
+    const asOf = toLocalDate(Array.from(totals.keys()).sort().pop()!)!;
+
+    // Working days with no report count as zero output
+    const history = eachDayOfInterval({ start, end: asOf }).filter(day => isWorkingDay(day, projectData.calendar) || totals.has(dateKey(day)));
+    const values = history.map(day => totals.get(dateKey(day)) || 0);
+    const actualToDate = values.reduce((sum, v) => sum + v, 0);
+
+    const planDays = eachDayOfInterval({ start, end });
+    const resources = normalizeResources(projectData.resources);
+    const dayTargets = getDayTargets(projectData.goal, planDays, getAvailableWeights(planDays, resources, projectData.calendar), projectData.distribution || DEFAULT_DISTRIBUTION);
+    const targetToDate = planDays.reduce((sum, day, i) => (day <= asOf ? sum + dayTargets[i] : sum), 0);
+
+    // Working days after the last report, through the end date and on to the horizon
+    const future = eachDayOfInterval({ start: addDays(asOf, 1), end: addDays(asOf, HORIZON_DAYS) }).filter(day => isWorkingDay(day, projectData.calendar));
+    const workingDaysLeft = future.filter(day => day <= end).length;
+    const remaining = Math.max(0, projectData.goal - actualToDate);
+
+    const paces: Record<ForecastMethod, (x: number) => DailyPace> = {
+        'run-rate': constantPace(values),
+        'moving-average': constantPace(values.slice(-MOVING_AVERAGE_DAYS)),
+        'linear-trend': trendPace(values),
+    };
+    const paths = {} as Record<ForecastMethod, number[]>; // Cumulative output on each working day up to the end date
+    const methods = (Object.keys(paces) as ForecastMethod[]).map((method): MethodForecast => {
+        const cumulative = { mid: actualToDate, low: actualToDate, high: actualToDate };
+        const completion: Record<'mid' | 'low' | 'high', string | null> = { mid: null, low: null, high: null };
+        const atEnd = { ...cumulative };
+        const path: number[] = [];
+        future.forEach((day, i) => {
+            const pace = paces[method](history.length + i);
+            (['mid', 'low', 'high'] as const).forEach(band => {
+                cumulative[band] += pace[band];
+                if (completion[band] === null && cumulative[band] >= projectData.goal) completion[band] = dateKey(day);
+            });
+            if (day <= end) {
+                Object.assign(atEnd, cumulative);
+                path.push(cumulative.mid);
+            }
+        });
+        if (remaining === 0) completion.mid = completion.low = completion.high = dateKey(asOf);
+        paths[method] = path;
+        return {
+            method,
+            label: METHOD_LABELS[method],
+            dailyRate: workingDaysLeft > 0 ? (atEnd.mid - actualToDate) / workingDaysLeft : paces[method](history.length).mid,
+            projectedTotal: atEnd.mid,
+            projectedTotalLow: atEnd.low,
+            projectedTotalHigh: atEnd.high,
+            completionDate: completion.mid,
+            // A faster pace finishes sooner, so the high path gives the earliest date
+            completionDateEarliest: completion.high,
+            completionDateLatest: completion.low,
+        };
+    });
+
+    const recent = methods.find(m => m.method === 'moving-average')!;
+    const status: ForecastStatus = remaining === 0 ? 'complete'
+        : recent.projectedTotal >= projectData.goal ? 'on-track'
+        : recent.projectedTotalHigh >= projectData.goal ? 'at-risk'
+        : 'behind';
+
+    // Projected lines start at the last report so they join the actuals, and hold level over non-working days
+    const pathIndex = new Map(future.filter(day => day <= end).map((day, i) => [dateKey(day), i]));
+    const nothingProjected = { 'run-rate': null, 'moving-average': null, 'linear-trend': null };
+    let projected: Record<ForecastMethod, number | null> = { 'run-rate': actualToDate, 'moving-average': actualToDate, 'linear-trend': actualToDate };
+    let cumulativeActual = 0;
+    let cumulativeTarget = 0;
+    const days = planDays.map((day, i): ForecastDay => {
+        const key = dateKey(day);
+        cumulativeTarget += dayTargets[i];
+        if (day <= asOf) {
+            cumulativeActual += totals.get(key) || 0;
+            return {
+                date: key,
+                actual: totals.get(key) ?? null,
+                cumulativeActual,
+                cumulativeTarget,
+                projected: key === dateKey(asOf) ? { ...projected } : nothingProjected,
+            };
+        }
+        const index = pathIndex.get(key);
+        if (index !== undefined) {
+            projected = { 'run-rate': paths['run-rate'][index], 'moving-average': paths['moving-average'][index], 'linear-trend': paths['linear-trend'][index] };
+        }
+        return { date: key, actual: null, cumulativeActual: null, cumulativeTarget, projected: { ...projected } };
+    });
+
+    return {
+        asOf: dateKey(asOf),
+        goal: projectData.goal,
+        actualToDate,
+        targetToDate,
+        remaining,
+        workingDaysElapsed: history.length,
+        workingDaysLeft,
+        requiredDailyRate: workingDaysLeft > 0 ? remaining / workingDaysLeft : null,
+        status,
+        confidence: FORECAST_CONFIDENCE,
+        methods,
+        days,
+    };
+};
+
+const STATUS_LABELS: Record<ForecastStatus, string> = {
+    complete: 'Goal reached',
+    'on-track': 'On track',
+    'at-risk': 'At risk',
+    behind: 'Behind',
+};
+
+export const describeForecastStatus = (status: ForecastStatus) => STATUS_LABELS[status];
+
+const formatAmount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+
+/**
+ * Plain-text summary for the chat and for the model: where the project stands, what each method expects
+ * and the pace needed to finish on time.
+ */
+export const describeForecast = (forecast: ProjectForecast, unit = 'units'): string[] => {
+    const recent = forecast.methods.find(m => m.method === 'moving-average')!;
+    const variance = forecast.actualToDate - forecast.targetToDate;
+    const status = forecast.status === 'complete' ? describeForecastStatus(forecast.status) : `${describeForecastStatus(forecast.status)} at the recent pace`;
+    const lines = [
+        `${status} as of ${forecast.asOf}: ${formatAmount(forecast.actualToDate)} of ${formatAmount(forecast.goal)} ${unit} done, `
+            + `${variance >= 0 ? '+' : ''}${formatAmount(variance)} against the ${formatAmount(forecast.targetToDate)} planned by now.`,
+        ...forecast.methods.map(m =>
+            `${m.label}: ${formatAmount(m.dailyRate)} ${unit}/day, ${formatAmount(m.projectedTotal)} by the end date `
+            + `(${Math.round(forecast.confidence * 100)}% band ${formatAmount(m.projectedTotalLow)}–${formatAmount(m.projectedTotalHigh)}), `
+            + `goal reached ${m.completionDate ?? 'not within three years'}`
+            + `${m.completionDate && m.completionDateEarliest !== m.completionDateLatest ? ` (between ${m.completionDateEarliest} and ${m.completionDateLatest ?? 'later'})` : ''}.`),
+    ];
+    if (forecast.workingDaysElapsed < MIN_RELIABLE_DAYS) {
+        lines.push(`Only ${forecast.workingDaysElapsed} working day(s) of history, so the bands understate the uncertainty.`);
+    }
+    if (forecast.remaining > 0) {
+        lines.push(forecast.requiredDailyRate === null
+            ? `No working days are left; ${formatAmount(forecast.remaining)} ${unit} are still outstanding.`
+            : `To finish on time: ${formatAmount(forecast.requiredDailyRate)} ${unit}/day over the ${forecast.workingDaysLeft} working day(s) left, `
+                + `against a recent pace of ${formatAmount(recent.dailyRate)} ${unit}/day.`);
+    }
+    return lines;
+};
+
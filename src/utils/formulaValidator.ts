@@ -0,0 +1,262 @@
+import { ProjectData } from '../types/production';
+import { getColumnLetter, sanitizeSheetName } from './excelGenerator';
+
+export type FormulaLocation = 'dailyColumns' | 'columns' | 'pivotColumns' | 'dashboardMetrics';
+
+export interface FormulaIssue {
+    location: FormulaLocation;
+    index: number;
+    label: string; // Header or metric label of the offending formula
+    formula: string;
+    message: string;
+}
+
+export interface FormulaValidationResult {
+    valid: boolean;
+    errors: FormulaIssue[];
+    warnings: FormulaIssue[];
+}
+
+// Must stay in step with the layouts written by generateExcelFile
+export const DAILY_TABLE = 'DailyProductionTable';
+export const PIVOT_TABLE = 'PivotTable';
+export const DAILY_BASE_HEADERS = ['Date', 'Day', 'Week', 'Month', 'Name'];
+const PLAN_BASE_HEADERS = ['Date', 'Month'];
+const PIVOT_BASE_HEADERS = ['Week', 'Month'];
+const STRUCTURED_SPECIALS = ['#all', '#data', '#headers', '#totals', '#this row'];
+
+const KNOWN_FUNCTIONS = new Set([
+    'ABS', 'AND', 'AVERAGE', 'AVERAGEIF', 'AVERAGEIFS', 'CEILING', 'CHOOSE', 'COLUMN', 'COUNT', 'COUNTA', 'COUNTBLANK',
+    'COUNTIF', 'COUNTIFS', 'DATE', 'DATEDIF', 'DAY', 'DAYS', 'EDATE', 'EOMONTH', 'EXP', 'FALSE', 'FILTER', 'FLOOR', 'HLOOKUP',
+    'IF', 'IFERROR', 'IFNA', 'IFS', 'INDEX', 'INDIRECT', 'INT', 'ISBLANK', 'ISERROR', 'ISNUMBER', 'ISOWEEKNUM', 'LARGE',
+    'LEFT', 'LEN', 'LN', 'LOG', 'LOOKUP', 'LOWER', 'MATCH', 'MAX', 'MAXIFS', 'MEDIAN', 'MID', 'MIN', 'MINIFS', 'MOD', 'MONTH',
+    'NA', 'NETWORKDAYS', 'NETWORKDAYS.INTL', 'NOT', 'NOW', 'OFFSET', 'OR', 'PERCENTILE', 'POWER', 'PRODUCT', 'RANK', 'RIGHT',
+    'ROUND', 'ROUNDDOWN', 'ROUNDUP', 'ROW', 'ROWS', 'SIGN', 'SMALL', 'SQRT', 'STDEV', 'SUBTOTAL', 'SUM', 'SUMIF', 'SUMIFS',
+    'SUMPRODUCT', 'SWITCH', 'TEXT', 'TODAY', 'TRIM', 'TRUE', 'TRUNC', 'UNIQUE', 'UPPER', 'VALUE', 'VLOOKUP', 'WEEKDAY',
+    'WEEKNUM', 'WORKDAY', 'WORKDAY.INTL', 'XLOOKUP', 'YEAR',
+]);
+
+interface FormulaContext {
+    location: FormulaLocation;
+    columnCount: number; // Columns on the formula's own sheet; 0 when same-sheet cell references make no sense
+    rowTemplate: boolean; // Whether the formula is written once per row with {rowIndex}
+    selfColumn?: string;
+}
+
+const columnNumber = (letters: string): number =>
+    letters.split('').reduce((n, ch) => n * 26 + (ch.charCodeAt(0) - 64), 0);
+
+const getSheetNames = (projectData: ProjectData) => [
+    'Daily_Production_Key',
+    sanitizeSheetName(`${projectData.name} Plan`),
+    'Production_Pivot',
+    'Dashboard',
+    'Target_Distribution',
+    'Resource_Summary',
+    'Forecast',
+    'Chart_Data',
+];
+
+// Replaces quoted strings so their contents aren't mistaken for references
+const stripStrings = (formula: string) => formula.replace(/"(?:[^"]|"")*"/g, '""');
+
+const checkBalance = (formula: string): string | null => {
+    let depth = 0;
+    for (const ch of stripStrings(formula)) {
+        if (ch === '(') depth++;
+        if (ch === ')') depth--;
+        if (depth < 0) return 'Unbalanced parentheses: a ")" has no matching "(".';
+    }
+    if (depth !== 0) return 'Unbalanced parentheses: a "(" is never closed.';
+    if ((formula.match(/"/g) || []).length % 2 !== 0) return 'Unterminated text string (odd number of double quotes).';
+    return null;
+};
+
+/**
+ * Same-row columns a row-template formula depends on, e.g. "G{rowIndex}-F{rowIndex}" → F, G.
+ * Ranges ending on the current row (SUM($D$2:D{rowIndex})) count as well.
+ */
+export const getRowDependencies = (formula: string): string[] => {
+    const deps = new Set<string>();
+    const body = stripStrings(formula).replace(/'[^']*'!\S+|[A-Za-z_][\w.]*![$A-Z0-9:{}a-zA-Z]+/g, '');
+    for (const match of body.matchAll(/(?<![A-Za-z0-9_])\$?([A-Z]{1,3})\{rowIndex\}/g)) deps.add(match[1]);
+    return Array.from(deps);
+};
+
+const findCycles = (graph: Map<string, string[]>): string[][] => {
+    const cycles: string[][] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const visit = (node: string) => {
+        state.set(node, 'visiting');
+        stack.push(node);
+        for (const next of graph.get(node) || []) {
+            if (!graph.has(next)) continue;
+            if (state.get(next) === 'visiting') cycles.push([...stack.slice(stack.indexOf(next)), next]);
+            else if (!state.has(next)) visit(next);
+        }
+        stack.pop();
+        state.set(node, 'done');
+    };
+    Array.from(graph.keys()).forEach(node => { if (!state.has(node)) visit(node); });
+    return cycles;
+};
+
+const checkFormula = (
+    formula: string,
+    context: FormulaContext,
+    tables: Record<string, string[]>,
+    sheetNames: string[],
+): { errors: string[]; warnings: string[] } => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const body = stripStrings(formula.replace(/^=/, ''));
+
+    const balance = checkBalance(formula);
+    if (balance) errors.push(balance);
+
+    // Structured references: Table[Col], Table[[Col1]:[Col2]], Table[[#Totals],[Col]], Table[@Col]
+    let rest = body.replace(/([A-Za-z_][\w.]*)\[((?:[^\[\]]|\[[^\]]*\])*)\]/g, (_, table: string, inner: string) => {
+        const headers = tables[table];
+        if (!headers) {
+            errors.push(`Unknown table "${table}". Available tables: ${Object.keys(tables).join(', ')}.`);
+            return ' ';
+        }
+        const names = inner.includes('[')
+            ? Array.from(inner.matchAll(/\[([^\]]*)\]/g)).map(m => m[1])
+            : [inner];
+        names
+            .map(name => name.replace(/^@/, '').trim())
+            .filter(name => name && !STRUCTURED_SPECIALS.includes(name.toLowerCase()))
+            .forEach(name => {
+                if (!headers.some(h => h.toLowerCase() === name.toLowerCase())) {
+                    errors.push(`${table}[${name}] does not exist. Columns of ${table}: ${headers.join(', ')}.`);
+                }
+            });
+        return ' ';
+    });
+
+    // Cross-sheet references: only the sheet name can be checked
+    rest = rest.replace(/(?:'((?:[^']|'')+)'|([A-Za-z_][\w.]*))!\$?[A-Z]{1,3}(?:\$?\d+|\{rowIndex\})?(?::\$?[A-Z]{1,3}(?:\$?\d+|\{rowIndex\})?)?/g, (_, quoted: string, plain: string) => {
+        const sheet = (quoted || plain).replace(/''/g, "'");
+        if (!sheetNames.some(name => name.toLowerCase() === sheet.toLowerCase())) {
+            errors.push(`Sheet "${sheet}" does not exist. Sheets: ${sheetNames.join(', ')}.`);
+        }
+        return ' ';
+    });
+
+    if (!context.rowTemplate && rest.includes('{rowIndex}')) {
+        errors.push('{rowIndex} is only available in per-row formulas; dashboard metrics must aggregate whole columns.');
+    }
+
+    // Same-sheet cell references
+    for (const match of rest.matchAll(/(?<![A-Za-z0-9_.])(\$?)([A-Z]{1,3})(\$?)(\d+|\{rowIndex\})(?![A-Za-z0-9_(])/g)) {
+        const [ref, , letters, rowAbsolute, row] = match;
+        if (context.columnCount === 0) {
+            warnings.push(`${ref} refers to a cell on the ${context.location === 'dashboardMetrics' ? 'Dashboard' : 'same'} sheet; use a DailyProductionTable reference instead.`);
+            continue;
+        }
+        if (columnNumber(letters) > context.columnCount) {
+            errors.push(`Column ${letters} in ${ref} is outside the table (last column is ${getColumnLetter(context.columnCount)}).`);
+        }
+        if (context.rowTemplate && row !== '{rowIndex}' && !rowAbsolute) {
+            errors.push(`${ref} hard-codes row ${row}; use ${letters}{rowIndex} for the current row or $${letters}$${row} for a fixed anchor.`);
+        }
+    }
+    for (const match of rest.matchAll(/(?<![A-Za-z0-9_.$])\$?([A-Z]{1,3}):\$?([A-Z]{1,3})(?![A-Za-z0-9_({])/g)) {
+        [match[1], match[2]].forEach(letters => {
+            if (context.columnCount > 0 && columnNumber(letters) > context.columnCount) {
+                errors.push(`Column ${letters} in ${match[0]} is outside the table (last column is ${getColumnLetter(context.columnCount)}).`);
+            }
+        });
+    }
+
+    if (context.selfColumn && getRowDependencies(formula).includes(context.selfColumn)) {
+        errors.push(`Circular reference: the formula refers to its own column ${context.selfColumn} on the same row.`);
+    }
+
+    for (const match of rest.matchAll(/(?<![A-Za-z0-9_.])([A-Za-z][A-Za-z0-9.]*)\s*\(/g)) {
+        const name = match[1].toUpperCase().replace(/^_XLFN\./, '');
+        if (!KNOWN_FUNCTIONS.has(name)) warnings.push(`Unrecognised function ${match[1]}(); Excel may show #NAME?.`);
+    }
+
+    return { errors: Array.from(new Set(errors)), warnings: Array.from(new Set(warnings)) };
+};
+
+/**
+ * Checks every model-written formula against the table layouts the generator will produce.
+ */
+export const validateProjectFormulas = (projectData: ProjectData): FormulaValidationResult => {
+    const errors: FormulaIssue[] = [];
+    const warnings: FormulaIssue[] = [];
+    const dailyColumns = projectData.dailyColumns || [];
+    const columns = projectData.columns || [];
+    const pivotColumns = projectData.pivotColumns || [];
+
+    const tables: Record<string, string[]> = {
+        [DAILY_TABLE]: [...DAILY_BASE_HEADERS, ...dailyColumns.map(c => c.header)],
+        [PIVOT_TABLE]: [...PIVOT_BASE_HEADERS, ...pivotColumns.map(c => c.header)],
+    };
+    const sheetNames = getSheetNames(projectData);
+
+    const run = (location: FormulaLocation, index: number, label: string, formula: string | undefined, context: Omit<FormulaContext, 'location'>) => {
+        if (!formula) return;
+        const result = checkFormula(formula, { ...context, location }, tables, sheetNames);
+        result.errors.forEach(message => errors.push({ location, index, label, formula, message }));
+        result.warnings.forEach(message => warnings.push({ location, index, label, formula, message }));
+    };
+
+    const dailyOffset = DAILY_BASE_HEADERS.length;
+    dailyColumns.forEach((col, i) => run('dailyColumns', i, col.header, col.formula, {
+        columnCount: dailyOffset + dailyColumns.length,
+        rowTemplate: true,
+        selfColumn: getColumnLetter(dailyOffset + i + 1),
+    }));
+    columns.forEach((col, i) => run('columns', i, col.header, col.formula, {
+        columnCount: PLAN_BASE_HEADERS.length + columns.length,
+        rowTemplate: true,
+        selfColumn: getColumnLetter(PLAN_BASE_HEADERS.length + i + 1),
+    }));
+    pivotColumns.forEach((col, i) => run('pivotColumns', i, col.header, col.formula, {
+        columnCount: PIVOT_BASE_HEADERS.length + pivotColumns.length,
+        rowTemplate: true,
+        selfColumn: getColumnLetter(PIVOT_BASE_HEADERS.length + i + 1),
+    }));
+    (projectData.dashboardMetrics || []).forEach((metric, i) => run('dashboardMetrics', i, metric.label, metric.formula, {
+        columnCount: 0,
+        rowTemplate: false,
+    }));
+
+    // Cycles spanning several columns on the same row, e.g. F uses G and G uses F
+    const groups: { location: FormulaLocation; offset: number; formulas: (string | undefined)[]; labels: string[] }[] = [
+        { location: 'dailyColumns', offset: dailyOffset, formulas: dailyColumns.map(c => c.formula), labels: dailyColumns.map(c => c.header) },
+        { location: 'columns', offset: PLAN_BASE_HEADERS.length, formulas: columns.map(c => c.formula), labels: columns.map(c => c.header) },
+        { location: 'pivotColumns', offset: PIVOT_BASE_HEADERS.length, formulas: pivotColumns.map(c => c.formula), labels: pivotColumns.map(c => c.header) },
+    ];
+    groups.forEach(({ location, offset, formulas, labels }) => {
+        const graph = new Map<string, string[]>();
+        formulas.forEach((formula, i) => {
+            if (formula) graph.set(getColumnLetter(offset + i + 1), getRowDependencies(formula));
+        });
+        findCycles(graph)
+            .filter(cycle => cycle.length > 2) // Self references are reported per formula
+            .forEach(cycle => {
+                const index = columnNumber(cycle[0]) - offset - 1;
+                errors.push({
+                    location,
+                    index,
+                    label: labels[index],
+                    formula: formulas[index] || '',
+                    message: `Circular reference between columns ${cycle.join(' → ')}.`,
+                });
+            });
+    });
+
+    return { valid: errors.length === 0, errors, warnings };
+};
+
+/**
+ * Plain-text summary suitable for a function response, so the model can fix the formulas and retry.
+ */
+export const formatFormulaIssues = (issues: FormulaIssue[]): string[] =>
+    issues.map(issue => `${issue.location}[${issue.index}] "${issue.label}" (${issue.formula}): ${issue.message}`);
@@ -0,0 +1,189 @@
+import { format, isValid, parse } from 'date-fns';
+import { DateOrder, ImportIssue } from '../types/production';
+
+// Turns the loosely typed cells of an uploaded sheet into ISO dates and plain numbers.
+// Anything that can't be read with confidence is reported instead of guessed at silently.
+
+export interface ParsedValue<T> {
+    value: T | null; // null when the cell is blank or unreadable
+    issue?: Pick<ImportIssue, 'message' | 'severity'>;
+}
+
+const BLANK_VALUES = ['', '-', '--', 'n/a', 'na', 'null', 'none'];
+const EXCEL_EPOCH_OFFSET = 25569; // Days between 1899-12-30 and 1970-01-01
+const MAX_EXCEL_SERIAL = 2958465; // 9999-12-31
+const MIN_PLAUSIBLE_SERIAL = 20000; // 1954; smaller numbers in a date column are more likely typos
+
+const NAMED_MONTH_PATTERNS = ['d-MMM-yyyy', 'd-MMM-yy', 'd MMM yyyy', 'MMM d, yyyy', 'MMMM d, yyyy', 'd MMMM yyyy', 'EEE, d MMM yyyy'];
+const NUMERIC_DATE = /^(\d{1,4})[/.\-](\d{1,2})[/.\-](\d{1,4})$/;
+
+export const isBlankValue = (value: unknown): boolean =>
+    value === null || value === undefined || (typeof value === 'string' && BLANK_VALUES.includes(value.trim().toLowerCase()));
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? format(date, 'yyyy-MM-dd') : null;
+};
+
+const expandYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+/**
+ * Date order used by the browser's locale, e.g. DMY for en-GB and MDY for en-US.
+ */
+export const getLocaleDateOrder = (locale?: string): DateOrder => {
+    const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2000, 10, 22));
+    const order = parts.filter(part => ['day', 'month', 'year'].includes(part.type)).map(part => part.type[0].toUpperCase()).join('');
+    return order === 'DMY' || order === 'YMD' ? order : 'MDY';
+};
+
+/**
+ * Works out whether slash dates in a column are day-first or month-first. A value like 25/03 settles it;
+ * when every value fits both readings the locale decides and the result is marked ambiguous. Values starting
+ * with a 4-digit year are read as YMD on their own and don't count towards the decision.
+ */
+export const detectDateOrder = (values: unknown[], locale?: string): { order: DateOrder; ambiguous: boolean } => {
+    let dayFirst = false;
+    let monthFirst = false;
+    let yearFirst = false;
+    let numericDates = 0;
+    values.forEach(value => {
+        if (typeof value !== 'string') return;
+        const match = value.trim().match(NUMERIC_DATE);
+        if (!match) return;
+        if (match[1].length === 4) {
+            yearFirst = true;
+            return;
+        }
+        numericDates++;
+        const [first, second] = [Number(match[1]), Number(match[2])];
+        if (first > 12) dayFirst = true;
+        else if (second > 12) monthFirst = true;
+    });
+    if (yearFirst && numericDates === 0) return { order: 'YMD', ambiguous: false };
+    if (dayFirst && !monthFirst) return { order: 'DMY', ambiguous: false };
+    if (monthFirst && !dayFirst) return { order: 'MDY', ambiguous: false };
+    const order = getLocaleDateOrder(locale);
+    return { order: order === 'YMD' ? 'MDY' : order, ambiguous: numericDates > 0 };
+};
+
+const fromExcelSerial = (serial: number): string => {
+    const utc = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * 86400000));
+    return toIsoDate(utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate())!;
+};
+
+/**
+ * Reads a date cell: Date objects, Excel serial numbers, ISO strings, numeric dates in the given order,
+ * and dates with month names. Returns yyyy-MM-dd.
+ */
+export const parseDateValue = (raw: unknown, order: DateOrder, orderIsAmbiguous = false): ParsedValue<string> => {
+    if (isBlankValue(raw)) return { value: null };
+
+    if (raw instanceof Date) {
+        if (!isValid(raw)) return { value: null, issue: { message: 'Invalid date', severity: 'invalid' } };
+        // Spreadsheet dates arrive as UTC midnight; reading them in local time would shift west of GMT back a day
+        const utcMidnight = raw.getUTCHours() === 0 && raw.getUTCMinutes() === 0 && raw.getUTCSeconds() === 0;
+        return {
+            value: utcMidnight
+                ? toIsoDate(raw.getUTCFullYear(), raw.getUTCMonth() + 1, raw.getUTCDate())
+                : format(raw, 'yyyy-MM-dd'),
+        };
+    }
+
+    const text = String(raw).trim();
+    const serial = typeof raw === 'number' ? raw : /^\d{5}(\.\d+)?$/.test(text) ? Number(text) : NaN;
+    if (!isNaN(serial)) {
+        if (serial >= MIN_PLAUSIBLE_SERIAL && serial <= MAX_EXCEL_SERIAL) return { value: fromExcelSerial(serial) };
+        return { value: null, issue: { message: `${text} is not a recognisable date`, severity: 'invalid' } };
+    }
+
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ][\d:.]+Z?)?$/);
+    if (iso) {
+        const value = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+        return value ? { value } : { value: null, issue: { message: `${text} is not a valid date`, severity: 'invalid' } };
+    }
+
+    const numeric = text.match(NUMERIC_DATE);
+    if (numeric) {
+        const [a, b, c] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+        const effectiveOrder = numeric[1].length === 4 ? 'YMD' : order;
+        const value = effectiveOrder === 'YMD'
+            ? toIsoDate(a, b, c)
+            : effectiveOrder === 'DMY' ? toIsoDate(expandYear(c), b, a) : toIsoDate(expandYear(c), a, b);
+        if (!value) return { value: null, issue: { message: `${text} is not a valid ${effectiveOrder} date`, severity: 'invalid' } };
+        // Both readings are real dates and nothing in the column told them apart
+        if (orderIsAmbiguous && effectiveOrder !== 'YMD' && a <= 12 && b <= 12 && a !== b) {
+            return { value, issue: { message: `${text} could be day-first or month-first; read as ${effectiveOrder}`, severity: 'ambiguous' } };
+        }
+        return { value };
+    }
+
+    for (const pattern of NAMED_MONTH_PATTERNS) {
+        const parsed = parse(text, pattern, new Date());
+        if (isValid(parsed)) return { value: format(parsed, 'yyyy-MM-dd') };
+    }
+    return { value: null, issue: { message: `${text} is not a recognisable date`, severity: 'invalid' } };
+};
+
+/**
+ * Decides whether a column writes 1.234,5 (comma decimals) or 1,234.5 by looking at all of its values.
+ */
+export const detectDecimalSeparator = (values: unknown[]): '.' | ',' => {
+    let comma = 0;
+    let dot = 0;
+    values.forEach(value => {
+        if (typeof value !== 'string') return;
+        const text = value.replace(/[^\d.,]/g, '');
+        if (/^\d{1,3}(\.\d{3})+,\d+$/.test(text) || /^\d+,\d{1,2}$/.test(text) || /^\d+,\d{4,}$/.test(text)) comma++;
+        else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(text) || /^\d+\.\d+$/.test(text)) dot++;
+    });
+    return comma > dot ? ',' : '.';
+};
+
+/**
+ * Reads a numeric cell, accepting thousands separators, currency symbols or codes, percentages and
+ * accounting-style negatives such as (1,250). Percentages become fractions, as Excel stores them.
+ */
+export const parseNumberValue = (raw: unknown, decimalSeparator: '.' | ',' = '.'): ParsedValue<number> => {
+    if (isBlankValue(raw)) return { value: null };
+    if (typeof raw === 'number') return isFinite(raw) ? { value: raw } : { value: null, issue: { message: 'Not a finite number', severity: 'invalid' } };
+    if (typeof raw === 'boolean' || raw instanceof Date) {
+        return { value: null, issue: { message: `${String(raw)} is not a number`, severity: 'invalid' } };
+    }
+
+    const text = String(raw).trim();
+    let cleaned = text
+        .replace(/\b[A-Z]{3}\b/g, '') // ISO currency codes like USD, PHP
+        .replace(/[$€£¥₱₹₩₽¢\s ']/g, '');
+    const percent = cleaned.endsWith('%');
+    if (percent) cleaned = cleaned.slice(0, -1);
+    const negative = /^\(.*\)$/.test(cleaned) || /^-/.test(cleaned) || /-$/.test(cleaned);
+    cleaned = cleaned.replace(/^\((.*)\)$/, '$1').replace(/^-|-$/g, '');
+
+    const thousands = decimalSeparator === ',' ? '.' : ',';
+    const groupPattern = new RegExp(`^\\d{1,3}(\\${thousands}\\d{3})+(\\${decimalSeparator}\\d+)?$`);
+    if (groupPattern.test(cleaned)) cleaned = cleaned.split(thousands).join('');
+    else if (cleaned.includes(thousands)) {
+        return { value: null, issue: { message: `${text} has separators in unexpected places`, severity: 'invalid' } };
+    }
+    if (decimalSeparator === ',') cleaned = cleaned.replace(',', '.');
+
+    if (!/^\d*\.?\d+$/.test(cleaned)) return { value: null, issue: { message: `${text} is not a number`, severity: 'invalid' } };
+    const value = Number(cleaned) * (negative ? -1 : 1) / (percent ? 100 : 1);
+    return { value };
+};
+
+/**
+ * Reads a stored actuals date (yyyy-MM-dd, or anything parseDateValue understands) as a local calendar day.
+ */
+export const toLocalDate = (value: string): Date | null => {
+    const { value: iso } = parseDateValue(value, getLocaleDateOrder());
+    if (!iso) return null;
+    const [year, month, day] = iso.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const formatImportIssues = (issues: ImportIssue[], limit = 10): string[] => {
+    const lines = issues.slice(0, limit).map(issue => `Row ${issue.row}, ${issue.field}: ${issue.message}`);
+    if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+    return lines;
+};
@@ -0,0 +1,259 @@
+import ExcelJS from 'exceljs';
+import { format, isValid } from 'date-fns';
+import { ActualDataItem, DailyColumn, ProjectColumn, ProjectData } from '../types/production';
+import { UNASSIGNED_SHEET } from './resourceMatching';
+
+export const PLAN_CREATOR = 'Production Plan Agent';
+export const PLAN_METADATA_SHEET = '_ProjectData';
+const METADATA_VERSION = 1;
+const METADATA_CHUNK_SIZE = 30000; // Excel caps cell text at 32,767 characters
+
+export interface ImportedPlan {
+    project: ProjectData;
+    actuals: ActualDataItem[];
+    fromMetadata: boolean; // false when the definition was rebuilt from the visible sheets
+}
+
+/**
+ * Stores the project definition (without actuals, which live in DailyProductionTable) in a very hidden sheet.
+ */
+export const addPlanMetadataSheet = (workbook: ExcelJS.Workbook, projectData: ProjectData) => {
+    const sheet = workbook.addWorksheet(PLAN_METADATA_SHEET);
+    sheet.state = 'veryHidden';
+    const { actualData, ...definition } = projectData;
+    const json = JSON.stringify({ version: METADATA_VERSION, project: definition });
+    sheet.getCell('A1').value = 'Production Plan Agent project definition. Do not edit.';
+    for (let i = 0; i * METADATA_CHUNK_SIZE < json.length; i++) {
+        sheet.getCell(`A${i + 2}`).value = json.slice(i * METADATA_CHUNK_SIZE, (i + 1) * METADATA_CHUNK_SIZE);
+    }
+    return sheet;
+};
+
+export const isGeneratedPlan = (workbook: ExcelJS.Workbook): boolean =>
+    workbook.creator === PLAN_CREATOR || !!workbook.getWorksheet(PLAN_METADATA_SHEET);
+
+const readMetadata = (workbook: ExcelJS.Workbook): ProjectData | null => {
+    const sheet = workbook.getWorksheet(PLAN_METADATA_SHEET);
+    if (!sheet) return null;
+    let json = '';
+    for (let rowIndex = 2; rowIndex <= sheet.rowCount; rowIndex++) {
+        const value = sheet.getCell(`A${rowIndex}`).value;
+        if (typeof value === 'string') json += value;
+    }
+    try {
+        const parsed = JSON.parse(json);
+        return parsed?.project ? parsed.project as ProjectData : null;
+    } catch {
+        return null;
+    }
+};
+
+const cellText = (cell: ExcelJS.Cell): string => {
+    const value = cell.value;
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object' && 'richText' in value) return value.richText.map(part => part.text).join('');
+    return String(value);
+};
+
+const cellResult = (cell: ExcelJS.Cell): any => {
+    const value = cell.value;
+    return value && typeof value === 'object' && 'result' in value ? value.result : value;
+};
+
+const cellFormula = (cell: ExcelJS.Cell): string | undefined => {
+    const value = cell.value;
+    return value && typeof value === 'object' && 'formula' in value ? value.formula : undefined;
+};
+
+// Turns "G2-F2" written for row 2 back into "G{rowIndex}-F{rowIndex}"; absolute rows such as $D$2 are kept.
+const toTemplate = (formula: string, rowIndex: number) =>
+    formula.replace(new RegExp(`(^|[^A-Za-z0-9_$\\[])(\\$?[A-Z]{1,3})${rowIndex}(?!\\d)`, 'g'), '$1$2{rowIndex}');
+
+const toKey = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'column';
+
+const BASE_KEY_COLUMNS = 5; // Date, Day, Week, Month, Name
+
+const readDailyColumns = (sheet: ExcelJS.Worksheet): DailyColumn[] => {
+    const columns: DailyColumn[] = [];
+    const header = sheet.getRow(1);
+    for (let col = BASE_KEY_COLUMNS + 1; col <= header.cellCount; col++) {
+        const title = cellText(header.getCell(col));
+        if (!title) continue;
+        const formula = cellFormula(sheet.getRow(2).getCell(col));
+        columns.push({ header: title, key: toKey(title), ...(formula ? { formula: toTemplate(formula, 2) } : {}) });
+    }
+    return columns;
+};
+
+const PLAN_SECTION_FILLS: Record<string, ProjectColumn['section']> = {
+    FFFFF2CC: 'Target',
+    FFC6E0B4: 'Actual',
+};
+
+/**
+ * Rebuilds the definition from the visible sheets, for workbooks generated before metadata was embedded.
+ */
+const reconstructProject = (workbook: ExcelJS.Workbook): ProjectData | null => {
+    const keySheet = workbook.getWorksheet('Daily_Production_Key');
+    if (!keySheet) return null;
+    const planSheet = workbook.worksheets.find(ws => / Plan$/.test(ws.name));
+    const pivotSheet = workbook.getWorksheet('Production_Pivot');
+
+    const dailyColumns = readDailyColumns(keySheet);
+
+    const columns: ProjectColumn[] = [];
+    let unit = 'units';
+    let name = planSheet ? planSheet.name.replace(/ Plan$/, '') : 'Imported Plan';
+    if (planSheet) {
+        const title = cellText(planSheet.getCell('A1'));
+        if (title.includes(':')) name = title.split(':')[0].trim();
+        const unitMatch = cellText(planSheet.getCell('A2')).match(/^Target (.+) Output$/);
+        if (unitMatch) unit = unitMatch[1].toLowerCase();
+        const header = planSheet.getRow(4);
+        for (let col = 3; col <= header.cellCount; col++) {
+            const cell = header.getCell(col);
+            const title = cellText(cell);
+            if (!title) continue;
+            const fill = cell.fill && cell.fill.type === 'pattern' ? cell.fill.fgColor?.argb : undefined;
+            const formula = cellFormula(planSheet.getRow(5).getCell(col));
+            columns.push({
+                header: title,
+                key: toKey(title),
+                section: (fill && PLAN_SECTION_FILLS[fill]) || 'Accumulative',
+                ...(formula ? { formula: toTemplate(formula, 5) } : {}),
+            });
+        }
+    }
+
+    const pivotColumns: { header: string; formula: string }[] = [];
+    if (pivotSheet) {
+        const header = pivotSheet.getRow(1);
+        for (let col = 3; col <= header.cellCount; col++) {
+            const title = cellText(header.getCell(col));
+            const formula = cellFormula(pivotSheet.getRow(2).getCell(col));
+            if (title && formula) pivotColumns.push({ header: title, formula: toTemplate(formula, 2) });
+        }
+    }
+
+    const dates: Date[] = [];
+    const resources: string[] = [];
+    let goal = 0;
+    const targetCol = dailyColumns.findIndex(col => col.key === 'target');
+    keySheet.eachRow((row, rowIndex) => {
+        if (rowIndex === 1) return;
+        const date = cellResult(row.getCell(1));
+        const resource = cellText(row.getCell(5));
+        if (!(date instanceof Date) || !resource) return;
+        dates.push(date);
+        if (!resources.includes(resource)) resources.push(resource);
+        if (targetCol >= 0 && !dailyColumns[targetCol].formula) {
+            goal += Number(cellResult(row.getCell(BASE_KEY_COLUMNS + 1 + targetCol))) || 0;
+        }
+    });
+    if (dates.length === 0) return null;
+
+    const distributionSheet = workbook.getWorksheet('Target_Distribution');
+    if (goal === 0 && distributionSheet) {
+        distributionSheet.eachRow((row, rowIndex) => {
+            if (rowIndex >= 5) goal += Number(cellResult(row.getCell(2))) || 0;
+        });
+    }
+
+    const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime());
+    return {
+        name,
+        goal: Math.round(goal * 100) / 100,
+        unit,
+        startDate: format(sorted[0], 'yyyy-MM-dd'),
+        endDate: format(sorted[sorted.length - 1], 'yyyy-MM-dd'),
+        resources,
+        columns,
+        dailyColumns,
+        ...(pivotColumns.length > 0 ? { pivotColumns } : {}),
+    };
+};
+
+/**
+ * Reads the actuals entered into DailyProductionTable: every row with an Actual value or another manual column filled in.
+ */
+export const readPlanActuals = (workbook: ExcelJS.Workbook, dailyColumns: DailyColumn[]): ActualDataItem[] => {
+    const keySheet = workbook.getWorksheet('Daily_Production_Key');
+    if (!keySheet) return [];
+    // Match columns by header so reordered or renamed keys still line up
+    const header = keySheet.getRow(1);
+    const positions = new Map<string, number>();
+    for (let col = BASE_KEY_COLUMNS + 1; col <= header.cellCount; col++) {
+        positions.set(cellText(header.getCell(col)).toLowerCase(), col);
+    }
+    const manualColumns = dailyColumns.filter(col => !col.formula && col.key.toLowerCase() !== 'target');
+
+    const actuals: ActualDataItem[] = [];
+    keySheet.eachRow((row, rowIndex) => {
+        if (rowIndex === 1) return;
+        const date = cellResult(row.getCell(1));
+        const name = cellText(row.getCell(5));
+        if (!(date instanceof Date) || !isValid(date) || !name) return;
+
+        const item: ActualDataItem = { date: format(date, 'yyyy-MM-dd'), name, actual: null };
+        let hasValue = false;
+        manualColumns.forEach(col => {
+            const position = positions.get(col.header.toLowerCase());
+            if (!position) return;
+            const value = cellResult(row.getCell(position));
+            if (value === null || value === undefined || value === '') return;
+            hasValue = true;
+            if (col.key.toLowerCase() === 'actual') item.actual = Number(value) || 0;
+            else item[col.key] = value;
+        });
+        if (hasValue) actuals.push(item);
+    });
+    return actuals;
+};
+
+/**
+ * Reads back the actuals parked on the Unassigned sheet, so a re-import still has them once the names are sorted out.
+ */
+const readUnassignedActuals = (workbook: ExcelJS.Workbook, dailyColumns: DailyColumn[]): ActualDataItem[] => {
+    const sheet = workbook.getWorksheet(UNASSIGNED_SHEET);
+    if (!sheet) return [];
+    const header = sheet.getRow(1);
+    const positions = new Map<string, number>();
+    for (let col = 1; col <= header.cellCount; col++) positions.set(cellText(header.getCell(col)).toLowerCase(), col);
+
+    const actuals: ActualDataItem[] = [];
+    sheet.eachRow((row, rowIndex) => {
+        if (rowIndex === 1) return;
+        const date = cellResult(row.getCell(positions.get('date') || 1));
+        const name = cellText(row.getCell(positions.get('name') || 2)).trim();
+        if (!(date instanceof Date) || !isValid(date) || !name) return;
+        const actual = cellResult(row.getCell(positions.get('actual') || 3));
+        const item: ActualDataItem = { date: format(date, 'yyyy-MM-dd'), name, actual: typeof actual === 'number' ? actual : null };
+        dailyColumns.forEach(col => {
+            const position = positions.get(col.header.toLowerCase());
+            if (!position || ['date', 'name', 'actual'].includes(col.key.toLowerCase())) return;
+            const value = cellResult(row.getCell(position));
+            if (value !== null && value !== undefined && value !== '') item[col.key] = value;
+        });
+        actuals.push(item);
+    });
+    return actuals;
+};
+
+/**
+ * Recognises a workbook produced by this app and returns its project definition with the latest actuals merged in.
+ */
+export const readGeneratedPlan = (workbook: ExcelJS.Workbook): ImportedPlan | null => {
+    if (!isGeneratedPlan(workbook)) return null;
+    const fromMetadata = readMetadata(workbook);
+    const project = fromMetadata || reconstructProject(workbook);
+    if (!project) return null;
+    const actuals = [
+        ...readPlanActuals(workbook, project.dailyColumns || []),
+        ...readUnassignedActuals(workbook, project.dailyColumns || []),
+    ];
+    return {
+        project: { ...project, actualData: actuals.length > 0 ? actuals : undefined },
+        actuals,
+        fromMetadata: !!fromMetadata,
+    };
+};
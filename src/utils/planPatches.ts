@@ -0,0 +1,285 @@
+import { ActualDataItem, PlanTemplate, ProjectChange, ProjectData, ResourceSpec } from '../types/production';
+import { mergeActuals } from './actualsMerge';
+import { DAILY_TABLE, FormulaLocation, PIVOT_TABLE, formatFormulaIssues, validateProjectFormulas } from './formulaValidator';
+import { keyFromHeader, parseProjectDraft } from './projectSchema';
+import { getResourceName } from './resources';
+
+// Small edits to a project definition, so the agent can change one thing without restating the whole plan.
+// Each edit returns the new definition and what changed; nothing is rendered until the workbook is asked for.
+
+export type PatchResult = { project: Partial<ProjectData>; changes: ProjectChange[] } | { error: string; details?: string[] };
+
+export type ColumnTarget = FormulaLocation;
+
+interface ColumnItem {
+    header?: string;
+    label?: string; // dashboardMetrics use a label rather than a header
+    key?: string;
+    formula?: string;
+}
+
+export type ProjectFields = Partial<Pick<ProjectData, 'name' | 'goal' | 'unit' | 'startDate' | 'endDate' | 'distribution' | 'calendar'>>;
+
+const SCALAR_FIELDS = ['name', 'goal', 'unit', 'startDate', 'endDate'] as const;
+const OBJECT_FIELDS = ['distribution', 'calendar'] as const;
+const COLUMN_TARGETS: ColumnTarget[] = ['columns', 'dailyColumns', 'pivotColumns', 'dashboardMetrics'];
+
+const sameName = (a: string | undefined, b: string) => (a || '').trim().toLowerCase() === b.trim().toLowerCase();
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+const columnLabel = (item: ColumnItem) => item.header ?? item.label ?? '';
+// Keyed lists are matched by key, so a renamed column shows up as a changed header rather than a swap
+const columnId = (item: ColumnItem) => item.key || columnLabel(item);
+
+const getColumns = (project: Partial<ProjectData>, target: ColumnTarget): ColumnItem[] => (project[target] as ColumnItem[] | undefined) || [];
+
+const findColumn = (items: ColumnItem[], name: string) =>
+    items.findIndex(item => sameName(columnLabel(item), name) || sameName(item.key, name));
+
+const diffList = <T>(path: string, before: T[], after: T[], id: (item: T) => string): ProjectChange[] => {
+    const changes: ProjectChange[] = [];
+    const afterById = new Map(after.map(item => [id(item), item]));
+    const beforeById = new Map(before.map(item => [id(item), item]));
+    before.forEach(item => {
+        if (!afterById.has(id(item))) changes.push({ path: `${path}[${id(item)}]`, before: item });
+    });
+    after.forEach(item => {
+        const previous = beforeById.get(id(item));
+        if (previous === undefined) {
+            changes.push({ path: `${path}[${id(item)}]`, after: item });
+            return;
+        }
+        if (isEqual(previous, item)) return;
+        if (typeof previous !== 'object' || typeof item !== 'object' || !previous || !item) {
+            changes.push({ path: `${path}[${id(item)}]`, before: previous, after: item });
+            return;
+        }
+        const fields = new Set([...Object.keys(previous), ...Object.keys(item)]);
+        fields.forEach(field => {
+            const from = (previous as Record<string, unknown>)[field];
+            const to = (item as Record<string, unknown>)[field];
+            if (!isEqual(from, to)) changes.push({ path: `${path}[${id(item)}].${field}`, before: from, after: to });
+        });
+    });
+    return changes;
+};
+
+/**
+ * Field-level differences between two definitions: scalars by name, resources by name, columns by key or
+ * header, aliases by name. Actuals are summarised as rows added, updated and removed.
+ */
+export const diffProjects = (before: Partial<ProjectData>, after: Partial<ProjectData>): ProjectChange[] => {
+    const changes: ProjectChange[] = [];
+    SCALAR_FIELDS.forEach(field => {
+        if (before[field] !== after[field]) changes.push({ path: field, before: before[field], after: after[field] });
+    });
+    OBJECT_FIELDS.forEach(field => {
+        if (!isEqual(before[field], after[field])) changes.push({ path: field, before: before[field], after: after[field] });
+    });
+    changes.push(...diffList('resources', before.resources || [], after.resources || [], getResourceName));
+    COLUMN_TARGETS.forEach(target => changes.push(...diffList(target, getColumns(before, target), getColumns(after, target), columnId)));
+    const aliases = new Set([...Object.keys(before.resourceAliases || {}), ...Object.keys(after.resourceAliases || {})]);
+    aliases.forEach(alias => {
+        const from = before.resourceAliases?.[alias];
+        const to = after.resourceAliases?.[alias];
+        if (from !== to) changes.push({ path: `resourceAliases[${alias}]`, before: from, after: to });
+    });
+    const beforeActuals = new Map((before.actualData || []).map(item => [`${item.date}|${item.name}`, item]));
+    const afterActuals = after.actualData || [];
+    const added = afterActuals.filter(item => !beforeActuals.has(`${item.date}|${item.name}`)).length;
+    const updated = afterActuals.filter(item => {
+        const previous = beforeActuals.get(`${item.date}|${item.name}`);
+        return previous !== undefined && !isEqual(previous, item);
+    }).length;
+    const removed = beforeActuals.size - (afterActuals.length - added);
+    if (added + updated + removed > 0) {
+        const counts = [[added, 'added'], [updated, 'updated'], [removed, 'removed']].filter(([n]) => n).map(([n, what]) => `${n} ${what}`);
+        changes.push({ path: 'actualData', before: `${beforeActuals.size} row(s)`, after: `${afterActuals.length} row(s) (${counts.join(', ')})` });
+    }
+    return changes;
+};
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+/**
+ * One line per change, for the chat and for the model.
+ */
+export const describeChanges = (changes: ProjectChange[]): string[] =>
+    changes.map(change => {
+        if (change.before === undefined) return `Added ${change.path}: ${formatValue(change.after)}`;
+        if (change.after === undefined) return `Removed ${change.path}`;
+        return `${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+    });
+
+const getProblems = (project: Partial<ProjectData>) => {
+    const { project: normalised, errors } = parseProjectDraft(project);
+    return { normalised, problems: [...errors, ...formatFormulaIssues(validateProjectFormulas(project as ProjectData).errors)] };
+};
+
+// Only problems the edit introduced are blamed on it; earlier ones are left for render to report
+const finish = (before: Partial<ProjectData>, after: Partial<ProjectData>): PatchResult => {
+    const existing = new Set(getProblems(before).problems);
+    const { normalised, problems } = getProblems(after);
+    const introduced = problems.filter(problem => !existing.has(problem));
+    if (introduced.length > 0) return { error: 'This change would leave the plan invalid; nothing was changed.', details: introduced };
+    return { project: normalised, changes: diffProjects(before, normalised) };
+};
+
+/**
+ * Sets top-level fields such as the dates, goal, distribution or calendar.
+ */
+export const updateProjectFields = (project: Partial<ProjectData>, fields: ProjectFields): PatchResult => {
+    const next: Partial<ProjectData> = { ...project };
+    for (const [field, value] of Object.entries(fields)) {
+        if (value === undefined || value === null) continue;
+        if (![...SCALAR_FIELDS, ...OBJECT_FIELDS].includes(field as typeof SCALAR_FIELDS[number])) return { error: `Unknown field "${field}".` };
+        (next as Record<string, unknown>)[field] = value;
+    }
+    return finish(project, next);
+};
+
+export const addResource = (project: Partial<ProjectData>, resource: ResourceSpec): PatchResult => {
+    const name = String(resource.name ?? '').trim();
+    if (!name) return { error: 'A resource needs a name.' };
+    if ((project.resources || []).some(r => sameName(getResourceName(r), name))) {
+        return { error: `"${name}" is already a resource; remove it first to change its settings.` };
+    }
+    return finish(project, { ...project, resources: [...(project.resources || []), { ...resource, name }] });
+};
+
+/**
+ * Removes a resource with its leave and the aliases that pointed at it. Its actuals stay and become unassigned.
+ */
+export const removeResource = (project: Partial<ProjectData>, name: string): PatchResult => {
+    const resource = (project.resources || []).find(r => sameName(getResourceName(r), name || ''));
+    if (!resource) return { error: `No resource named "${name}".` };
+    const resourceName = getResourceName(resource);
+    const next: Partial<ProjectData> = { ...project, resources: project.resources!.filter(r => r !== resource) };
+    if (project.calendar?.leave?.some(l => sameName(l.resource, resourceName))) {
+        next.calendar = { ...project.calendar, leave: project.calendar.leave.filter(l => !sameName(l.resource, resourceName)) };
+    }
+    if (project.resourceAliases) {
+        next.resourceAliases = Object.fromEntries(Object.entries(project.resourceAliases).filter(([, target]) => !sameName(target, resourceName)));
+    }
+    return finish(project, next);
+};
+
+export interface NewColumn {
+    header: string;
+    key?: string;
+    section?: 'Target' | 'Actual' | 'Accumulative';
+    formula?: string;
+    format?: string;
+}
+
+/**
+ * Appends a column to one of the definition's lists. Columns only go on the end, so the letters existing
+ * formulas use keep pointing at the same columns.
+ */
+export const addColumn = (project: Partial<ProjectData>, target: ColumnTarget, column: NewColumn): PatchResult => {
+    if (!COLUMN_TARGETS.includes(target)) return { error: `target must be one of ${COLUMN_TARGETS.join(', ')}.` };
+    const header = column.header?.trim();
+    if (!header) return { error: 'A column needs a header.' };
+    const items = getColumns(project, target);
+    if (findColumn(items, header) >= 0) return { error: `${target} already has a column named "${header}".` };
+
+    let item: ColumnItem & Record<string, unknown>;
+    if (target === 'dashboardMetrics') {
+        if (!column.formula) return { error: 'A dashboard metric needs a formula.' };
+        item = { label: header, formula: column.formula, ...(column.format ? { format: column.format } : {}) };
+    } else if (target === 'pivotColumns') {
+        if (!column.formula) return { error: 'A pivot column needs a formula.' };
+        item = { header, formula: column.formula };
+    } else {
+        const key = column.key?.trim() || keyFromHeader(header);
+        if (items.some(existing => existing.key === key)) return { error: `${target} already uses the key "${key}".` };
+        item = { header, key, ...(column.formula ? { formula: column.formula } : {}) };
+        if (target === 'columns') {
+            if (!column.section) return { error: 'A plan column needs a section: Target, Actual or Accumulative.' };
+            if (!column.formula) return { error: 'A plan column needs a formula.' };
+            item.section = column.section;
+        }
+    }
+    return finish(project, { ...project, [target]: [...items, item] });
+};
+
+/**
+ * Replaces a column's formula; an empty formula clears it where the list allows (daily columns only).
+ */
+export const editColumnFormula = (project: Partial<ProjectData>, target: ColumnTarget, column: string, formula: string): PatchResult => {
+    if (!COLUMN_TARGETS.includes(target)) return { error: `target must be one of ${COLUMN_TARGETS.join(', ')}.` };
+    const items = getColumns(project, target);
+    const index = findColumn(items, column || '');
+    if (index < 0) return { error: `No column "${column}" in ${target}.`, details: items.map(columnLabel) };
+    if (!formula && target !== 'dailyColumns') return { error: `Columns in ${target} need a formula.` };
+    const { formula: _previous, ...rest } = items[index];
+    const updated = formula ? { ...rest, formula } : rest;
+    return finish(project, { ...project, [target]: items.map((item, i) => (i === index ? updated : item)) });
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Points structured references such as Table[Old] or Table[[#This Row],[Old]] at the new column name.
+ */
+const renameTableColumn = (formula: string, table: string, from: string, to: string) =>
+    formula.replace(new RegExp(`${escapeRegExp(table)}\\[((?:\\[[^\\]]*\\][,:]?\\s*)+|[^\\[\\]]*)\\]`, 'gi'), (_ref, inner: string) => {
+        const renamed = inner.startsWith('[')
+            ? inner.replace(/\[([^\]]*)\]/g, (part, name: string) => (sameName(name, from) ? `[${to}]` : part))
+            : sameName(inner, from) ? to : inner;
+        return `${table}[${renamed}]`;
+    });
+
+/**
+ * Renames a column and rewrites formulas that refer to it by name, so they keep working.
+ */
+export const renameColumn = (project: Partial<ProjectData>, target: ColumnTarget, column: string, newName: string): PatchResult => {
+    if (!COLUMN_TARGETS.includes(target)) return { error: `target must be one of ${COLUMN_TARGETS.join(', ')}.` };
+    const name = newName?.trim();
+    if (!name) return { error: 'The new name is empty.' };
+    const items = getColumns(project, target);
+    const index = findColumn(items, column || '');
+    if (index < 0) return { error: `No column "${column}" in ${target}.`, details: items.map(columnLabel) };
+    const clash = findColumn(items, name);
+    if (clash >= 0 && clash !== index) return { error: `${target} already has a column named "${name}".` };
+
+    const oldName = columnLabel(items[index]);
+    const labelField = target === 'dashboardMetrics' ? 'label' : 'header';
+    const table = target === 'dailyColumns' ? DAILY_TABLE : target === 'pivotColumns' ? PIVOT_TABLE : null;
+    const next: Partial<ProjectData> = { ...project, [target]: items.map((item, i) => (i === index ? { ...item, [labelField]: name } : item)) };
+    if (table) {
+        COLUMN_TARGETS.filter(list => next[list]).forEach(list => {
+            (next as Record<string, unknown>)[list] = getColumns(next, list).map(item =>
+                item.formula ? { ...item, formula: renameTableColumn(item.formula, table, oldName, name) } : item);
+        });
+    }
+    return finish(project, next);
+};
+
+/**
+ * Replaces the column architecture with a template's. The unit and distribution are only taken when the
+ * project has none, so a template never overrides what the user already asked for.
+ */
+export const applyTemplate = (project: Partial<ProjectData>, template: PlanTemplate): PatchResult => {
+    const next: Partial<ProjectData> = {
+        ...project,
+        columns: template.columns,
+        dailyColumns: template.dailyColumns,
+        pivotColumns: template.pivotColumns?.length ? template.pivotColumns : undefined,
+        dashboardMetrics: template.dashboardMetrics?.length ? template.dashboardMetrics : undefined,
+    };
+    if (!project.unit && template.unit) next.unit = template.unit;
+    if (!project.distribution && template.distribution) next.distribution = template.distribution;
+    return finish(project, next);
+};
+
+/**
+ * Adds actuals typed in chat; a date and resource already present takes the new value.
+ */
+export const appendActualData = (project: Partial<ProjectData>, items: ActualDataItem[]): PatchResult => {
+    if (!items?.length) return { error: 'No actuals were given.' };
+    // Checked on their own first, so problems point at the items as given
+    const { project: given, errors } = parseProjectDraft({ actualData: items });
+    if (errors.length > 0) return { error: 'Some actuals are invalid; nothing was added.', details: errors };
+    const { rows } = mergeActuals([project.actualData || [], given.actualData!]);
+    return finish(project, { ...project, actualData: rows });
+};
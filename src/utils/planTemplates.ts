@@ -0,0 +1,44 @@
+import { BUILT_IN_TEMPLATES } from '../data/planTemplates';
+import { PlanTemplate, ProjectData } from '../types/production';
+
+// Plan templates: a column architecture kept apart from any one project, so a new plan can start from a
+// layout that is known to work instead of the model proposing a new one each time.
+
+export type TemplateDefinition = Omit<PlanTemplate, 'id' | 'builtIn' | 'createdAt'>;
+
+/**
+ * The layout of a project as a template. Dates, goal, resources, calendar, actuals and aliases stay behind.
+ */
+export const templateFromProject = (project: Partial<ProjectData>, name: string, description = ''): TemplateDefinition => ({
+    name: name.trim(),
+    description: description.trim() || `Saved from ${project.name || 'a project'}.`,
+    ...(project.unit ? { unit: project.unit } : {}),
+    ...(project.distribution ? { distribution: project.distribution } : {}),
+    columns: project.columns || [],
+    dailyColumns: project.dailyColumns || [],
+    ...(project.pivotColumns?.length ? { pivotColumns: project.pivotColumns } : {}),
+    ...(project.dashboardMetrics?.length ? { dashboardMetrics: project.dashboardMetrics } : {}),
+});
+
+/**
+ * Built-in templates followed by the saved ones.
+ */
+export const mergeTemplates = (saved: PlanTemplate[]): PlanTemplate[] => [...BUILT_IN_TEMPLATES, ...saved];
+
+/**
+ * A template by id, or by name ignoring case.
+ */
+export const findTemplateIn = (templates: PlanTemplate[], ref: string): PlanTemplate | undefined => {
+    const wanted = (ref || '').trim().toLowerCase();
+    return templates.find(t => t.id === ref) || templates.find(t => t.name.toLowerCase() === wanted || t.id.toLowerCase() === wanted);
+};
+
+/**
+ * One line per template for the chat and for the model.
+ */
+export const describeTemplate = (template: PlanTemplate): string => {
+    const daily = template.dailyColumns.map(col => col.header).join(', ');
+    return `${template.name} (${template.id}${template.builtIn ? ', built-in' : ''}): ${template.description} `
+        + `Daily columns: ${daily}; ${template.columns.length} plan column(s), ${template.pivotColumns?.length ?? 0} pivot column(s), `
+        + `${template.dashboardMetrics?.length ?? 0} dashboard metric(s).`;
+};
@@ -0,0 +1,131 @@
+import { format } from 'date-fns';
+import { ProjectData } from '../types/production';
+import { ForecastStatus, forecastProject } from './forecast';
+import { getDailyCapacity } from './resources';
+import { scheduleResourceTargets } from './targetDistribution';
+
+// Several projects that draw on the same teams. A team is the same across projects when its name matches,
+// ignoring case; its capacity is the one given for the portfolio, or the largest any project declares.
+
+export const MAX_PORTFOLIO_PROJECTS = 12;
+
+export interface PortfolioTeam {
+    name: string;
+    capacity?: number; // Per working day, after efficiency; teams without one are never flagged
+}
+
+export interface OverAllocation {
+    date: string;
+    team: string;
+    load: number;
+    capacity: number;
+    projects: { project: string; target: number }[];
+}
+
+export interface ResourceLoad {
+    dates: string[]; // Every day at least one project runs
+    teams: PortfolioTeam[];
+    loads: number[][][]; // Per date, per team, per project
+    overAllocations: OverAllocation[];
+}
+
+export interface PortfolioProjectSummary {
+    name: string;
+    goal: number;
+    unit: string;
+    startDate: string;
+    endDate: string;
+    teams: string[];
+    actualToDate: number | null; // Null until the project has actuals
+    status: ForecastStatus | null;
+    forecastCompletion: string | null; // From the moving average
+    requiredDailyRate: number | null;
+}
+
+const teamKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Adds up every team's daily targets across the projects and lists the days a team is asked for more than its capacity.
+ */
+export const getResourceLoad = (projects: ProjectData[], capacities: Record<string, number> = {}): ResourceLoad => {
+    const schedules = projects.map(project => scheduleResourceTargets(project));
+    const dates = Array.from(new Set(schedules.flatMap(s => s.days.map(day => format(day, 'yyyy-MM-dd'))))).sort();
+    const dateIndex = new Map(dates.map((date, i) => [date, i]));
+
+    const teams: PortfolioTeam[] = [];
+    const teamIndex = new Map<string, number>();
+    schedules.forEach(schedule => schedule.resources.forEach(resource => {
+        const key = teamKey(resource.name);
+        if (!teamIndex.has(key)) {
+            teamIndex.set(key, teams.length);
+            teams.push({ name: resource.name });
+        }
+        const team = teams[teamIndex.get(key)!];
+        const capacity = getDailyCapacity(resource);
+        if (capacity !== undefined && capacity > (team.capacity ?? 0)) team.capacity = capacity;
+    }));
+    Object.entries(capacities).forEach(([name, given]) => {
+        // Request bodies can carry "5"; a string here would turn the over-allocation check into concatenation
+        const capacity = Number(given);
+        const index = teamIndex.get(teamKey(name));
+        if (index !== undefined && Number.isFinite(capacity) && capacity > 0) teams[index].capacity = capacity;
+    });
+
+    const loads = dates.map(() => teams.map(() => projects.map(() => 0)));
+    schedules.forEach((schedule, projectIndex) => schedule.days.forEach((day, dayIndex) => {
+        const row = loads[dateIndex.get(format(day, 'yyyy-MM-dd'))!];
+        schedule.resources.forEach((resource, resourceIndex) => {
+            row[teamIndex.get(teamKey(resource.name))!][projectIndex] += schedule.targets[dayIndex][resourceIndex];
+        });
+    }));
+
+    const overAllocations: OverAllocation[] = [];
+    dates.forEach((date, i) => teams.forEach((team, t) => {
+        const load = loads[i][t].reduce((sum, target) => sum + target, 0);
+        if (team.capacity === undefined || load <= team.capacity + 1e-9) return;
+        overAllocations.push({
+            date,
+            team: team.name,
+            load,
+            capacity: team.capacity,
+            projects: projects.map((project, p) => ({ project: project.name, target: loads[i][t][p] })).filter(entry => entry.target > 0),
+        });
+    }));
+
+    return { dates, teams, loads, overAllocations };
+};
+
+export const summarizePortfolioProject = (project: ProjectData): PortfolioProjectSummary => {
+    const forecast = forecastProject(project);
+    return {
+        name: project.name,
+        goal: project.goal,
+        unit: project.unit,
+        startDate: project.startDate,
+        endDate: project.endDate,
+        teams: scheduleResourceTargets(project).resources.map(r => r.name),
+        actualToDate: forecast ? forecast.actualToDate : null,
+        status: forecast ? forecast.status : null,
+        forecastCompletion: forecast?.methods.find(m => m.method === 'moving-average')?.completionDate ?? null,
+        requiredDailyRate: forecast ? forecast.requiredDailyRate : null,
+    };
+};
+
+/**
+ * Plain-text findings for the chat and for the model: the over-allocated teams, each with its worst day.
+ */
+export const describeResourceLoad = (load: ResourceLoad): string[] => {
+    const amount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+    const lines = load.teams.flatMap(team => {
+        const days = load.overAllocations.filter(o => o.team === team.name);
+        if (days.length === 0) return [];
+        const worst = days.reduce((a, b) => (b.load - b.capacity > a.load - a.capacity ? b : a));
+        return [`${team.name} is over-allocated on ${days.length} day(s) (${days[0].date} to ${days[days.length - 1].date}); `
+            + `worst on ${worst.date}: ${amount(worst.load)} against a capacity of ${amount(worst.capacity)} `
+            + `(${worst.projects.map(p => `${p.project} ${amount(p.target)}`).join(', ')}).`];
+    });
+    if (lines.length === 0) lines.push('No team is over-allocated.');
+    const unknown = load.teams.filter(team => team.capacity === undefined).map(team => team.name);
+    if (unknown.length > 0) lines.push(`No capacity is set for ${unknown.join(', ')}, so ${unknown.length === 1 ? 'it is' : 'they are'} not checked.`);
+    return lines;
+};
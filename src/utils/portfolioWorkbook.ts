@@ -0,0 +1,164 @@
+import ExcelJS from 'exceljs';
+import { ProjectData } from '../types/production';
+import { describeForecastStatus } from './forecast';
+import { toLocalDate } from './importNormalization';
+import { PortfolioProjectSummary, ResourceLoad, getResourceLoad, summarizePortfolioProject } from './portfolio';
+import { OVER_CAPACITY_FILL, addDailyTargetSheet, addSheetTitle, styleHeaderRow, uniqueSheetNames } from './workbookSheets';
+
+const DASHBOARD_SHEET = 'Portfolio_Dashboard';
+const LOAD_SHEET = 'Resource_Load';
+const OVER_ALLOCATION_SHEET = 'Over_Allocation';
+
+const dateValue = (value: string | null) => (value ? toLocalDate(value) : null);
+
+/**
+ * Every project on one row, then every team with its busiest combined day.
+ */
+const addDashboardSheet = (workbook: ExcelJS.Workbook, summaries: PortfolioProjectSummary[], load: ResourceLoad) => {
+    const sheet = workbook.addWorksheet(DASHBOARD_SHEET);
+    const headers = ['Project', 'Goal', 'Unit', 'Start Date', 'End Date', 'Teams', 'Actual to Date', '% Complete', 'Status', 'Forecast Completion', 'Required Daily Rate'];
+    sheet.columns = [{ width: 28 }, { width: 12 }, { width: 10 }, { width: 13 }, { width: 13 }, { width: 30 }, { width: 14 }, { width: 12 }, { width: 14 }, { width: 16 }, { width: 16 }];
+    const overDays = new Set(load.overAllocations.map(o => o.date)).size;
+    addSheetTitle(sheet, headers.length, `Portfolio: ${summaries.length} projects, ${load.teams.length} teams`,
+        `${overDays > 0 ? `Teams are over-allocated on ${overDays} day(s); see ${OVER_ALLOCATION_SHEET}.` : 'No team is over-allocated.'} `
+        + 'Status and forecast completion use the recent pace of each project with actuals.');
+
+    const header = sheet.getRow(4);
+    header.values = headers;
+    styleHeaderRow(header);
+    summaries.forEach((summary, i) => {
+        const rowIndex = 5 + i;
+        const row = sheet.getRow(rowIndex);
+        row.values = [
+            summary.name,
+            summary.goal,
+            summary.unit,
+            dateValue(summary.startDate),
+            dateValue(summary.endDate),
+            summary.teams.join(', '),
+            summary.actualToDate,
+            summary.actualToDate !== null ? { formula: `IF(B${rowIndex}=0, 0, G${rowIndex}/B${rowIndex})` } : null,
+            summary.status ? describeForecastStatus(summary.status) : 'No actuals',
+            dateValue(summary.forecastCompletion),
+            summary.requiredDailyRate,
+        ];
+        [2, 7, 11].forEach(col => { row.getCell(col).numFmt = '#,##0.##'; });
+        [4, 5, 10].forEach(col => { row.getCell(col).numFmt = 'yyyy-mm-dd'; });
+        row.getCell(8).numFmt = '0.0%';
+        if (summary.status === 'behind') row.getCell(9).fill = OVER_CAPACITY_FILL;
+    });
+
+    const teamHeaderRow = 5 + summaries.length + 1;
+    const teamHeader = sheet.getRow(teamHeaderRow);
+    teamHeader.values = ['Team', 'Capacity / Day', 'Projects', 'Peak Combined Load', 'Peak Date', 'Days Over-allocated'];
+    styleHeaderRow(teamHeader);
+    load.teams.forEach((team, t) => {
+        const totals = load.loads.map(day => day[t].reduce((sum, target) => sum + target, 0));
+        const peakIndex = totals.reduce((best, total, i) => (total > totals[best] ? i : best), 0);
+        const row = sheet.getRow(teamHeaderRow + 1 + t);
+        row.values = [
+            team.name,
+            team.capacity ?? null,
+            summaries.filter(s => s.teams.some(name => name.toLowerCase() === team.name.toLowerCase())).length,
+            totals[peakIndex] ?? 0,
+            dateValue(load.dates[peakIndex] ?? null),
+            team.capacity === undefined ? 'No capacity' : load.overAllocations.filter(o => o.team === team.name).length,
+        ];
+        [2, 4].forEach(col => { row.getCell(col).numFmt = '#,##0.##'; });
+        row.getCell(5).numFmt = 'yyyy-mm-dd';
+        if (team.capacity !== undefined && totals[peakIndex] > team.capacity + 1e-9) row.getCell(4).fill = OVER_CAPACITY_FILL;
+    });
+    sheet.views = [{ state: 'frozen', ySplit: 4 }];
+};
+
+/**
+ * Each team's combined target per day, against its capacity.
+ */
+const addLoadSheet = (workbook: ExcelJS.Workbook, load: ResourceLoad) => {
+    const sheet = workbook.addWorksheet(LOAD_SHEET);
+    sheet.columns = [{ width: 13 }, ...load.teams.map(() => ({ width: 15 }))];
+    addSheetTitle(sheet, load.teams.length + 1, 'Combined Daily Load per Team',
+        'The sum of every project\'s daily target for each team. Red marks days above the team\'s capacity, shown in row 5.');
+
+    const header = sheet.getRow(4);
+    header.values = ['Date', ...load.teams.map(team => team.name)];
+    styleHeaderRow(header);
+    const capacityRow = sheet.getRow(5);
+    capacityRow.values = ['Capacity', ...load.teams.map(team => team.capacity ?? null)];
+    capacityRow.font = { italic: true };
+    capacityRow.eachCell(cell => { cell.numFmt = '#,##0.##'; });
+
+    load.dates.forEach((date, i) => {
+        const row = sheet.getRow(6 + i);
+        row.getCell(1).value = toLocalDate(date);
+        row.getCell(1).numFmt = 'yyyy-mm-dd';
+        load.teams.forEach((team, t) => {
+            const total = load.loads[i][t].reduce((sum, target) => sum + target, 0);
+            const cell = row.getCell(t + 2);
+            cell.value = total;
+            cell.numFmt = '#,##0.##';
+            if (team.capacity !== undefined && total > team.capacity + 1e-9) cell.fill = OVER_CAPACITY_FILL;
+        });
+    });
+    sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 5 }];
+};
+
+/**
+ * One row per team and day above capacity, with what each project asks of the team that day.
+ */
+const addOverAllocationSheet = (workbook: ExcelJS.Workbook, load: ResourceLoad) => {
+    const sheet = workbook.addWorksheet(OVER_ALLOCATION_SHEET);
+    const headers = ['Date', 'Team', 'Combined Load', 'Capacity', 'Over By', 'By Project'];
+    sheet.columns = [{ width: 13 }, { width: 20 }, { width: 15 }, { width: 12 }, { width: 12 }, { width: 60 }];
+    addSheetTitle(sheet, headers.length, 'Over-allocated Days',
+        'Days on which the projects together ask a team for more than its capacity. Move targets, dates or resources on the projects listed to clear them.');
+
+    const header = sheet.getRow(4);
+    header.values = headers;
+    styleHeaderRow(header);
+    if (load.overAllocations.length === 0) {
+        sheet.getCell('A5').value = 'No team is over-allocated.';
+        return;
+    }
+    load.overAllocations.forEach((entry, i) => {
+        const rowIndex = 5 + i;
+        const row = sheet.getRow(rowIndex);
+        row.values = [
+            toLocalDate(entry.date),
+            entry.team,
+            entry.load,
+            entry.capacity,
+            { formula: `C${rowIndex}-D${rowIndex}` },
+            entry.projects.map(p => `${p.project}: ${p.target.toLocaleString('en-US', { maximumFractionDigits: 2 })}`).join('; '),
+        ];
+        row.getCell(1).numFmt = 'yyyy-mm-dd';
+        [3, 4, 5].forEach(col => { row.getCell(col).numFmt = '#,##0.##'; });
+    });
+    sheet.autoFilter = { from: 'A4', to: `F${4 + load.overAllocations.length}` };
+    sheet.views = [{ state: 'frozen', ySplit: 4 }];
+};
+
+export const PORTFOLIO_FILE_NAME = 'Portfolio_Production_Planning.xlsx';
+
+/**
+ * One workbook for several projects: the portfolio dashboard, the combined load per team, the over-allocated
+ * days, then each project's daily plan on its own sheet.
+ */
+export const generatePortfolioWorkbook = async (projects: ProjectData[], capacities: Record<string, number> = {}) => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+    workbook.calcProperties.fullCalcOnLoad = true;
+
+    const summaries = projects.map(summarizePortfolioProject);
+    const load = getResourceLoad(projects, capacities);
+    addDashboardSheet(workbook, summaries, load);
+    addLoadSheet(workbook, load);
+    addOverAllocationSheet(workbook, load);
+    const sheetNames = uniqueSheetNames(projects.map(p => p.name), [DASHBOARD_SHEET, LOAD_SHEET, OVER_ALLOCATION_SHEET]);
+    projects.forEach((project, i) => addDailyTargetSheet(workbook, sheetNames[i], project,
+        `${project.name}: ${project.startDate} to ${project.endDate}, ${project.goal.toLocaleString('en-US')} ${project.unit || 'units'}`,
+        'Daily targets by team. Red marks a day above the team\'s capacity on this project alone; the combined load is on '
+        + `${LOAD_SHEET}.`));
+
+    return { buffer: await workbook.xlsx.writeBuffer(), summaries, load };
+};
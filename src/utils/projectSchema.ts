@@ -0,0 +1,358 @@
+import {
+    ActualDataItem,
+    DailyColumn,
+    DashboardMetric,
+    DistributionConfig,
+    DistributionStrategy,
+    Holiday,
+    ProjectColumn,
+    ProjectData,
+    ProjectResource,
+    ResourceLeave,
+    ResourceSpec,
+    WorkingCalendar,
+} from '../types/production';
+
+// Runtime checks for project definitions that arrive as JSON: the model's tool arguments, REST requests
+// and edited drafts. Each problem is reported with its path so the model can fix exactly that field.
+// Harmless variations are normalised on the way: numeric strings, unpadded dates, a leading '=' on formulas.
+
+export type ProjectParseResult = { project: ProjectData; errors?: undefined } | { project?: undefined; errors: string[] };
+
+const SECTIONS: ProjectColumn['section'][] = ['Target', 'Actual', 'Accumulative'];
+const STRATEGIES: DistributionStrategy[] = ['flat', 'linear', 'lpb', 's-curve', 'front-loaded', 'custom'];
+
+type Input = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Input => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isMissing = (value: unknown) => value === undefined || value === null;
+const quote = (value: unknown) => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value));
+
+class Checker {
+    errors: string[] = [];
+
+    fail(path: string, message: string) {
+        this.errors.push(`${path} ${message}`);
+    }
+
+    text(value: unknown, path: string, required = true): string | undefined {
+        if (isMissing(value)) {
+            if (required) this.fail(path, 'is required');
+            return undefined;
+        }
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            this.fail(path, `must be text (got ${quote(value)})`);
+            return undefined;
+        }
+        const text = String(value).trim();
+        if (!text && required) this.fail(path, 'must not be empty');
+        return text || undefined;
+    }
+
+    number(value: unknown, path: string, { required = false, min }: { required?: boolean; min?: number } = {}): number | undefined {
+        if (isMissing(value) || value === '') {
+            if (required) this.fail(path, 'is required');
+            return undefined;
+        }
+        const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.replace(/,/g, '')) : NaN;
+        if (!Number.isFinite(number)) {
+            this.fail(path, `must be a number (got ${quote(value)})`);
+            return undefined;
+        }
+        if (min !== undefined && number < min) {
+            this.fail(path, `must be ${min === 0 ? 'zero or more' : `at least ${min}`} (got ${number})`);
+            return undefined;
+        }
+        return number;
+    }
+
+    date(value: unknown, path: string, required = true): string | undefined {
+        const text = this.text(value, path, required);
+        if (text === undefined) return undefined;
+        const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+        const normalised = match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : '';
+        const parsed = new Date(`${normalised}T00:00:00Z`);
+        if (!match || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== normalised) {
+            this.fail(path, `must be a YYYY-MM-DD date (got ${quote(value)})`);
+            return undefined;
+        }
+        return normalised;
+    }
+
+    oneOf<T extends string>(value: unknown, path: string, options: T[], required = true): T | undefined {
+        const text = this.text(value, path, required);
+        if (text === undefined) return undefined;
+        const match = options.find(option => option.toLowerCase() === text.toLowerCase());
+        if (!match) this.fail(path, `must be one of ${options.join(', ')} (got ${quote(value)})`);
+        return match;
+    }
+
+    formula(value: unknown, path: string, required: boolean): string | undefined {
+        const text = this.text(value, path, required);
+        return text?.replace(/^=\s*/, '');
+    }
+
+    list(value: unknown, path: string, required: boolean): unknown[] {
+        if (isMissing(value)) {
+            if (required) this.fail(path, 'is required');
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            this.fail(path, 'must be a list');
+            return [];
+        }
+        return value;
+    }
+
+    object(value: unknown, path: string): Input | undefined {
+        if (isMissing(value)) return undefined;
+        if (!isObject(value)) {
+            this.fail(path, 'must be an object');
+            return undefined;
+        }
+        return value;
+    }
+
+    unique(names: (string | undefined)[], path: string, what: string) {
+        const seen = new Set<string>();
+        names.forEach((name, i) => {
+            if (!name) return;
+            const key = name.toLowerCase();
+            if (seen.has(key)) this.fail(`${path}[${i}]`, `repeats the ${what} ${quote(name)}`);
+            seen.add(key);
+        });
+    }
+
+    range(start: string | undefined, end: string | undefined, path: string) {
+        if (start && end && start > end) this.fail(path, `ends (${end}) before it starts (${start})`);
+    }
+}
+
+/**
+ * Column key derived from a header, e.g. "Scrap Rate" → scrapRate.
+ */
+export const keyFromHeader = (header: string) =>
+    header.trim().replace(/[^A-Za-z0-9]+(.)?/g, (_, next: string | undefined) => (next ? next.toUpperCase() : '')).replace(/^./, c => c.toLowerCase());
+
+const parseResource = (check: Checker, value: unknown, path: string): ProjectResource | undefined => {
+    if (typeof value === 'string') return check.text(value, path);
+    const input = check.object(value, path);
+    if (!input) {
+        if (isMissing(value)) check.fail(path, 'is required');
+        return undefined;
+    }
+    const name = check.text(input.name, `${path}.name`);
+    if (!name) return undefined;
+    const spec: ResourceSpec = { name };
+    const capacity = check.number(input.capacity, `${path}.capacity`, { min: 0 });
+    const efficiency = check.number(input.efficiency, `${path}.efficiency`, { min: 0 });
+    const startDate = check.date(input.startDate, `${path}.startDate`, false);
+    const endDate = check.date(input.endDate, `${path}.endDate`, false);
+    check.range(startDate, endDate, path);
+    if (capacity !== undefined) spec.capacity = capacity;
+    if (efficiency !== undefined) spec.efficiency = efficiency;
+    if (startDate) spec.startDate = startDate;
+    if (endDate) spec.endDate = endDate;
+    return spec;
+};
+
+const parseColumn = (check: Checker, value: unknown, path: string): ProjectColumn | undefined => {
+    const input = check.object(value, path);
+    if (!input) return undefined;
+    const header = check.text(input.header, `${path}.header`);
+    const section = check.oneOf(input.section, `${path}.section`, SECTIONS);
+    const formula = check.formula(input.formula, `${path}.formula`, false);
+    const width = check.number(input.width, `${path}.width`, { min: 1 });
+    if (!header || !section) return undefined;
+    return {
+        header,
+        key: check.text(input.key, `${path}.key`, false) || keyFromHeader(header),
+        section,
+        ...(formula ? { formula } : {}),
+        ...(width !== undefined ? { width } : {}),
+    };
+};
+
+const parseDailyColumn = (check: Checker, value: unknown, path: string): DailyColumn | undefined => {
+    const input = check.object(value, path);
+    if (!input) return undefined;
+    const header = check.text(input.header, `${path}.header`);
+    const formula = check.formula(input.formula, `${path}.formula`, false);
+    if (!header) return undefined;
+    return { header, key: check.text(input.key, `${path}.key`, false) || keyFromHeader(header), ...(formula ? { formula } : {}) };
+};
+
+const parsePivotColumn = (check: Checker, value: unknown, path: string) => {
+    const input = check.object(value, path);
+    if (!input) return undefined;
+    const header = check.text(input.header, `${path}.header`);
+    const formula = check.formula(input.formula, `${path}.formula`, true);
+    return header && formula ? { header, formula } : undefined;
+};
+
+const parseMetric = (check: Checker, value: unknown, path: string): DashboardMetric | undefined => {
+    const input = check.object(value, path);
+    if (!input) return undefined;
+    const label = check.text(input.label, `${path}.label`);
+    const formula = check.formula(input.formula, `${path}.formula`, true);
+    const format = check.text(input.format, `${path}.format`, false);
+    return label && formula ? { label, formula, ...(format ? { format } : {}) } : undefined;
+};
+
+const parseDistribution = (check: Checker, value: unknown, path: string): DistributionConfig | undefined => {
+    const input = check.object(value, path);
+    if (!input) return undefined;
+    const strategy = check.oneOf(input.strategy, `${path}.strategy`, STRATEGIES);
+    if (!strategy) return undefined;
+    const distribution: DistributionConfig = { strategy };
+    const startWeight = check.number(input.startWeight, `${path}.startWeight`, { min: 0 });
+    const endWeight = check.number(input.endWeight, `${path}.endWeight`, { min: 0 });
+    const weeklyWeights = check.list(input.weeklyWeights, `${path}.weeklyWeights`, strategy === 'custom')
+        .map((weight, i) => check.number(weight, `${path}.weeklyWeights[${i}]`, { required: true, min: 0 }))
+        .filter((weight): weight is number => weight !== undefined);
+    if (strategy === 'custom' && Array.isArray(input.weeklyWeights) && weeklyWeights.length === 0) {
+        check.fail(`${path}.weeklyWeights`, 'needs at least one weight for the custom strategy');
+    }
+    if (startWeight !== undefined) distribution.startWeight = startWeight;
+    if (endWeight !== undefined) distribution.endWeight = endWeight;
+    if (weeklyWeights.length > 0) distribution.weeklyWeights = weeklyWeights;
+    return distribution;
+};
+
+const parseCalendar = (check: Checker, value: unknown, path: string, resourceNames: string[] | null): WorkingCalendar | undefined => {
+    const input = check.object(value, path);
+    if (!input) return undefined;
+    const calendar: WorkingCalendar = {};
+    if (!isMissing(input.workingDays)) {
+        const days = check.list(input.workingDays, `${path}.workingDays`, true)
+            .map((day, i) => {
+                const number = check.number(day, `${path}.workingDays[${i}]`, { required: true, min: 0 });
+                if (number !== undefined && (number > 6 || !Number.isInteger(number))) {
+                    check.fail(`${path}.workingDays[${i}]`, `must be a weekday number from 0 (Sunday) to 6 (Saturday) (got ${number})`);
+                    return undefined;
+                }
+                return number;
+            })
+            .filter((day): day is number => day !== undefined);
+        if (Array.isArray(input.workingDays) && input.workingDays.length === 0) check.fail(`${path}.workingDays`, 'needs at least one working day');
+        calendar.workingDays = Array.from(new Set(days)).sort((a, b) => a - b);
+    }
+    const holidays = check.list(input.holidays, `${path}.holidays`, false).map((item, i): Holiday | undefined => {
+        const holiday = check.object(item, `${path}.holidays[${i}]`);
+        const date = holiday && check.date(holiday.date, `${path}.holidays[${i}].date`);
+        const name = holiday && check.text(holiday.name, `${path}.holidays[${i}].name`, false);
+        return date ? { date, ...(name ? { name } : {}) } : undefined;
+    }).filter((h): h is Holiday => h !== undefined);
+    const leave = check.list(input.leave, `${path}.leave`, false).map((item, i): ResourceLeave | undefined => {
+        const itemPath = `${path}.leave[${i}]`;
+        const entry = check.object(item, itemPath);
+        if (!entry) return undefined;
+        const resource = check.text(entry.resource, `${itemPath}.resource`);
+        const start = check.date(entry.start, `${itemPath}.start`);
+        const end = check.date(entry.end, `${itemPath}.end`);
+        const reason = check.text(entry.reason, `${itemPath}.reason`, false);
+        check.range(start, end, itemPath);
+        if (resource && resourceNames && !resourceNames.some(name => name.toLowerCase() === resource.toLowerCase())) {
+            check.fail(`${itemPath}.resource`, `${quote(resource)} is not one of the resources (${resourceNames.join(', ')})`);
+        }
+        return resource && start && end ? { resource, start, end, ...(reason ? { reason } : {}) } : undefined;
+    }).filter((l): l is ResourceLeave => l !== undefined);
+    if (holidays.length > 0) calendar.holidays = holidays;
+    if (leave.length > 0) calendar.leave = leave;
+    return calendar;
+};
+
+const parseActual = (check: Checker, value: unknown, path: string): ActualDataItem | undefined => {
+    const input = check.object(value, path);
+    if (!input) return undefined;
+    const { date: rawDate, name: rawName, actual: rawActual, ...extra } = input;
+    const date = check.date(rawDate, `${path}.date`);
+    const name = check.text(rawName, `${path}.name`);
+    // A blank actual is kept as null: the day was reported without a figure
+    const actual = rawActual === null ? null : check.number(rawActual, `${path}.actual`, { required: true });
+    if (!date || !name || actual === undefined) return undefined;
+    return { ...extra, date, name, actual } as ActualDataItem;
+};
+
+/**
+ * Checks and normalises a definition. With `partial`, required fields may be missing (a draft being edited)
+ * but whatever is present must be valid.
+ */
+const normaliseProject = (value: unknown, partial: boolean): { project: Partial<ProjectData>; errors: string[] } => {
+    const check = new Checker();
+    if (!isObject(value)) return { project: {}, errors: ['The project definition must be an object'] };
+    const required = !partial;
+    const project: Partial<ProjectData> = {};
+
+    project.name = check.text(value.name, 'name', required);
+    project.goal = check.number(value.goal, 'goal', { required });
+    if (project.goal !== undefined && project.goal <= 0) {
+        check.fail('goal', `must be greater than zero (got ${project.goal})`);
+    }
+    project.unit = check.text(value.unit, 'unit', required);
+    project.startDate = check.date(value.startDate, 'startDate', required);
+    project.endDate = check.date(value.endDate, 'endDate', required);
+    check.range(project.startDate, project.endDate, 'The project');
+
+    if (!isMissing(value.resources) || required) {
+        const resources = check.list(value.resources, 'resources', required);
+        if (Array.isArray(value.resources) && resources.length === 0 && required) check.fail('resources', 'needs at least one resource');
+        project.resources = resources.map((r, i) => parseResource(check, r, `resources[${i}]`)).filter((r): r is ProjectResource => r !== undefined);
+        check.unique(project.resources.map(r => (typeof r === 'string' ? r : r.name)), 'resources', 'resource name');
+    }
+    const resourceNames = project.resources ? project.resources.map(r => (typeof r === 'string' ? r : r.name)) : null;
+
+    if (!isMissing(value.columns) || required) {
+        project.columns = check.list(value.columns, 'columns', required)
+            .map((c, i) => parseColumn(check, c, `columns[${i}]`)).filter((c): c is ProjectColumn => c !== undefined);
+        check.unique(project.columns.map(c => c.key), 'columns', 'key');
+    }
+    if (!isMissing(value.dailyColumns) || required) {
+        project.dailyColumns = check.list(value.dailyColumns, 'dailyColumns', required)
+            .map((c, i) => parseDailyColumn(check, c, `dailyColumns[${i}]`)).filter((c): c is DailyColumn => c !== undefined);
+        check.unique(project.dailyColumns.map(c => c.header), 'dailyColumns', 'header');
+        check.unique(project.dailyColumns.map(c => c.key), 'dailyColumns', 'key');
+    }
+    if (!isMissing(value.pivotColumns)) {
+        project.pivotColumns = check.list(value.pivotColumns, 'pivotColumns', false)
+            .map((c, i) => parsePivotColumn(check, c, `pivotColumns[${i}]`)).filter((c): c is { header: string; formula: string } => c !== undefined);
+        check.unique(project.pivotColumns.map(c => c.header), 'pivotColumns', 'header');
+    }
+    if (!isMissing(value.dashboardMetrics)) {
+        project.dashboardMetrics = check.list(value.dashboardMetrics, 'dashboardMetrics', false)
+            .map((m, i) => parseMetric(check, m, `dashboardMetrics[${i}]`)).filter((m): m is DashboardMetric => m !== undefined);
+    }
+    project.distribution = parseDistribution(check, value.distribution, 'distribution');
+    project.calendar = parseCalendar(check, value.calendar, 'calendar', resourceNames);
+    if (!isMissing(value.actualData)) {
+        project.actualData = check.list(value.actualData, 'actualData', false)
+            .map((a, i) => parseActual(check, a, `actualData[${i}]`)).filter((a): a is ActualDataItem => a !== undefined);
+    }
+    const aliases = check.object(value.resourceAliases, 'resourceAliases');
+    if (aliases) {
+        project.resourceAliases = Object.fromEntries(Object.entries(aliases)
+            .map(([alias, resource]) => [alias, check.text(resource, `resourceAliases[${quote(alias)}]`)])
+            .filter((entry): entry is [string, string] => entry[1] !== undefined));
+    }
+
+    // Drop fields that were absent so the result has the same shape as the input
+    Object.keys(project).forEach(key => {
+        if (project[key as keyof ProjectData] === undefined) delete project[key as keyof ProjectData];
+    });
+    return { project, errors: check.errors };
+};
+
+/**
+ * Validates a complete definition, e.g. generate_production_plan's arguments, returning it normalised
+ * or every problem found.
+ */
+export const parseProjectData = (value: unknown): ProjectParseResult => {
+    const { project, errors } = normaliseProject(value, false);
+    return errors.length > 0 ? { errors } : { project: project as ProjectData };
+};
+
+/**
+ * Normalises a draft that is still being edited. Missing required fields are not reported, but whatever
+ * is present must be valid.
+ */
+export const parseProjectDraft = (value: unknown): { project: Partial<ProjectData>; errors: string[] } => normaliseProject(value, true);
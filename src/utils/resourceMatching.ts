@@ -0,0 +1,145 @@
+import { ActualDataItem, ProjectData } from '../types/production';
+import { getResourceNames } from './resources';
+
+// Reconciles the names in uploaded actuals with the plan's resources. Differences in case, spacing and
+// punctuation are matched automatically; closer guesses (typos, initials) are only suggested and need
+// the user's confirmation before they are saved as aliases on the project.
+
+export const UNASSIGNED_SHEET = 'Unassigned';
+
+export interface ResourceAliasSuggestion {
+    alias: string; // Name as it appears in the actuals
+    resource: string; // Suggested plan resource
+    reason: string;
+    rowCount: number;
+}
+
+export interface UnassignedActual {
+    item: ActualDataItem;
+    reason: string;
+    suggestion?: string;
+}
+
+export interface ReconciledActuals {
+    matched: ActualDataItem[]; // Renamed to their plan resource
+    unassigned: UnassignedActual[];
+    suggestions: ResourceAliasSuggestion[];
+}
+
+/**
+ * Lower-cases and reduces punctuation and runs of whitespace to single spaces: "Team-A " -> "team a".
+ */
+export const normalizeResourceName = (name: string): string =>
+    name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Edit distance where swapping two neighbouring letters ("Lien" for "Line") counts as one typo
+const editDistance = (a: string, b: string): number => {
+    if (a === b) return 0;
+    const rows = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+    for (let i = 1; i <= a.length; i++) {
+        rows[i] = [i];
+        for (let j = 1; j <= b.length; j++) {
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+        }
+    }
+    return rows[a.length][b.length];
+};
+
+// "j smith" fits "john smith": same last word, and each other word is the initial of the other's
+const matchesByInitials = (alias: string[], resource: string[]) =>
+    alias.length === resource.length
+    && alias.length > 1
+    && alias[alias.length - 1] === resource[resource.length - 1]
+    && alias.slice(0, -1).every((word, i) => word === resource[i] || (word.length === 1 && resource[i].startsWith(word)) || (resource[i].length === 1 && word.startsWith(resource[i])));
+
+/**
+ * Resolves a name to a plan resource without guessing: exact (ignoring case and outer spaces), a confirmed alias,
+ * or equal once spacing and punctuation are ignored.
+ */
+export const matchResourceName = (name: string, resourceNames: string[], aliases: Record<string, string> = {}): string | null => {
+    const trimmed = name.trim().toLowerCase();
+    const exact = resourceNames.find(resource => resource.trim().toLowerCase() === trimmed);
+    if (exact) return exact;
+    const aliasKey = Object.keys(aliases).find(alias => alias.trim().toLowerCase() === trimmed);
+    if (aliasKey && resourceNames.includes(aliases[aliasKey])) return aliases[aliasKey];
+    const normalized = normalizeResourceName(name);
+    return resourceNames.find(resource => normalizeResourceName(resource) === normalized) || null;
+};
+
+/**
+ * The closest plan resource within typo distance, or one the name abbreviates. Null when nothing is close
+ * or two resources are equally close.
+ */
+export const suggestResourceMatch = (name: string, resourceNames: string[]): { resource: string; reason: string } | null => {
+    const alias = normalizeResourceName(name);
+    if (!alias) return null;
+    const aliasWords = alias.split(' ');
+
+    const byInitials = resourceNames.filter(resource => matchesByInitials(aliasWords, normalizeResourceName(resource).split(' ')));
+    if (byInitials.length === 1) return { resource: byInitials[0], reason: 'Matches by initials' };
+
+    const compact = alias.replace(/ /g, '');
+    const ranked = resourceNames
+        .map(resource => ({ resource, distance: editDistance(compact, normalizeResourceName(resource).replace(/ /g, '')) }))
+        .sort((a, b) => a.distance - b.distance);
+    const best = ranked[0];
+    if (!best) return null;
+    const tolerance = Math.max(1, Math.floor(Math.min(compact.length, best.resource.length) * 0.2));
+    if (best.distance > tolerance || ranked[1]?.distance === best.distance) return null;
+    return { resource: best.resource, reason: `${best.distance} character${best.distance === 1 ? '' : 's'} different` };
+};
+
+/**
+ * Splits actuals into rows that belong to a plan resource (renamed to it) and rows that don't,
+ * with alias suggestions for the names that are close to a resource.
+ */
+export const reconcileActuals = (
+    actuals: ActualDataItem[],
+    resourceNames: string[],
+    aliases: Record<string, string> = {},
+): ReconciledActuals => {
+    const result: ReconciledActuals = { matched: [], unassigned: [], suggestions: [] };
+    const suggestionFor = new Map<string, { resource: string; reason: string } | null>();
+
+    actuals.forEach(item => {
+        const resource = matchResourceName(item.name, resourceNames, aliases);
+        if (resource) {
+            result.matched.push(resource === item.name ? item : { ...item, name: resource });
+            return;
+        }
+        const key = item.name.trim();
+        if (!suggestionFor.has(key)) suggestionFor.set(key, suggestResourceMatch(key, resourceNames));
+        const suggestion = suggestionFor.get(key);
+        result.unassigned.push({
+            item,
+            reason: suggestion ? `Not confirmed as an alias of ${suggestion.resource}` : 'No matching resource in the plan',
+            suggestion: suggestion?.resource,
+        });
+    });
+
+    suggestionFor.forEach((suggestion, alias) => {
+        if (!suggestion) return;
+        result.suggestions.push({
+            alias,
+            ...suggestion,
+            rowCount: result.unassigned.filter(u => u.item.name.trim() === alias).length,
+        });
+    });
+    return result;
+};
+
+export const reconcileProjectActuals = (projectData: ProjectData): ReconciledActuals =>
+    reconcileActuals(projectData.actualData || [], getResourceNames(projectData.resources), projectData.resourceAliases);
+
+/**
+ * Chat warning for actuals that are not counted against any resource, or '' when everything matched.
+ */
+export const describeUnassignedActuals = (unassigned: UnassignedActual[]): string => {
+    if (unassigned.length === 0) return '';
+    const total = unassigned.reduce((sum, u) => sum + (Number(u.item.actual) || 0), 0);
+    const names = Array.from(new Set(unassigned.map(u => u.item.name.trim())));
+    const listed = names.slice(0, 5).map(name => `"${name}"`).join(', ') + (names.length > 5 ? ` and ${names.length - 5} more` : '');
+    return `⚠️ ${unassigned.length} actual ${unassigned.length === 1 ? 'entry' : 'entries'} (${total.toLocaleString()} total) `
+        + `didn't match any resource in the plan: ${listed}. They are listed on the **Unassigned** sheet and are not counted in the plan.`;
+};
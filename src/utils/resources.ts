@@ -0,0 +1,58 @@
+import { isValid, parseISO, startOfDay } from 'date-fns';
+import { ProjectResource, ResourceSpec } from '../types/production';
+
+export interface NormalizedResource {
+    name: string;
+    capacity?: number;
+    efficiency: number;
+    startDate?: string;
+    endDate?: string;
+    weight: number; // capacity × efficiency, used to split each day's target
+}
+
+export const getResourceName = (resource: ProjectResource): string =>
+    typeof resource === 'string' ? resource : resource.name;
+
+export const getResourceNames = (resources: ProjectResource[] = []): string[] => resources.map(getResourceName);
+
+const getDeclaredCapacity = (spec: ResourceSpec) => (spec.capacity !== undefined && spec.capacity > 0 ? spec.capacity : undefined);
+
+/**
+ * Resources with their split weight. One without a capacity counts as the mean of the declared ones, so it still
+ * gets an equal share when others set theirs; with no capacities at all every resource weighs the same.
+ */
+export const normalizeResources = (resources: ProjectResource[] = []): NormalizedResource[] => {
+    const specs: ResourceSpec[] = resources.map(resource => (typeof resource === 'string' ? { name: resource } : resource));
+    const declared = specs.map(getDeclaredCapacity).filter((capacity): capacity is number => capacity !== undefined);
+    const defaultCapacity = declared.length > 0 ? declared.reduce((sum, capacity) => sum + capacity, 0) / declared.length : 1;
+    return specs.map(spec => {
+        const efficiency = spec.efficiency !== undefined && spec.efficiency > 0 ? spec.efficiency : 1;
+        const capacity = getDeclaredCapacity(spec);
+        return {
+            name: spec.name,
+            capacity,
+            efficiency,
+            startDate: spec.startDate,
+            endDate: spec.endDate,
+            weight: (capacity ?? defaultCapacity) * efficiency,
+        };
+    });
+};
+
+/**
+ * Whether the day falls inside the resource's own start/end dates (open-ended when unset).
+ */
+export const isWithinResourceDates = (day: Date, resource: NormalizedResource): boolean => {
+    const target = startOfDay(day);
+    const start = resource.startDate ? parseISO(resource.startDate) : null;
+    const end = resource.endDate ? parseISO(resource.endDate) : null;
+    if (start && isValid(start) && target < startOfDay(start)) return false;
+    if (end && isValid(end) && target > startOfDay(end)) return false;
+    return true;
+};
+
+/**
+ * Output the resource can deliver on a working day (capacity × efficiency), or undefined when no capacity is set.
+ */
+export const getDailyCapacity = (resource: NormalizedResource): number | undefined =>
+    resource.capacity !== undefined ? resource.weight : undefined;
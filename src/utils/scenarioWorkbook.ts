@@ -0,0 +1,91 @@
+import ExcelJS from 'exceljs';
+import { ProjectData } from '../types/production';
+import { toLocalDate } from './importNormalization';
+import { Scenario, ScenarioSummary, summarizeScenario } from './scenarios';
+import { OVER_CAPACITY_FILL, addDailyTargetSheet, addSheetTitle, styleHeaderRow, uniqueSheetNames } from './workbookSheets';
+
+const SUMMARY_SHEET = 'Scenario_Summary';
+
+/**
+ * Scenarios side by side: one column each, with the load on every resource at its busiest day.
+ */
+const addSummarySheet = (workbook: ExcelJS.Workbook, base: ProjectData, summaries: ScenarioSummary[]) => {
+    const sheet = workbook.addWorksheet(SUMMARY_SHEET);
+    const unitLabel = base.unit || 'units';
+    sheet.columns = [{ width: 34 }, ...summaries.map(() => ({ width: 24 }))];
+    addSheetTitle(sheet, summaries.length + 1, `${base.name}: What-if Comparison`,
+        `Each scenario is the current plan with the listed changes. Required daily rate is the goal over the working days, `
+        + `or what is left over the working days left once there are actuals. Red marks a peak above the resource's capacity.`);
+
+    const header = sheet.getRow(4);
+    header.values = ['Metric', ...summaries.map(s => s.name)];
+    styleHeaderRow(header);
+
+    const metrics: [string, (s: ScenarioSummary) => ExcelJS.CellValue, string?][] = [
+        ['Changes', s => (s.changes.length > 0 ? s.changes.join('\n') : '-')],
+        [`Goal (${unitLabel})`, s => s.goal, '#,##0.##'],
+        ['Start Date', s => toLocalDate(s.startDate), 'yyyy-mm-dd'],
+        ['End Date', s => toLocalDate(s.endDate), 'yyyy-mm-dd'],
+        ['Working Days', s => s.workingDays, '0'],
+        ['Resources', s => s.resourceCount, '0'],
+        ['Distribution', s => s.distribution],
+        [`Required Daily Rate (${unitLabel}/day)`, s => s.requiredDailyRate, '#,##0.##'],
+        [`Peak Daily Target (${unitLabel})`, s => s.peakDailyTarget, '#,##0.##'],
+        ['Peak Date', s => (s.peakDate ? toLocalDate(s.peakDate) : null), 'yyyy-mm-dd'],
+    ];
+    metrics.forEach(([label, value, numFmt], i) => {
+        const row = sheet.getRow(5 + i);
+        row.getCell(1).value = label;
+        row.getCell(1).font = { bold: true };
+        summaries.forEach((summary, col) => {
+            const cell = row.getCell(col + 2);
+            cell.value = value(summary);
+            if (numFmt) cell.numFmt = numFmt;
+            cell.alignment = { wrapText: true, vertical: 'top' };
+        });
+    });
+
+    // Every resource that appears in any scenario, in order of first appearance
+    const resourceNames = Array.from(new Set(summaries.flatMap(s => s.resourcePeaks.map(p => p.resource))));
+    const sectionRowIndex = 5 + metrics.length + 1;
+    const sectionRow = sheet.getRow(sectionRowIndex);
+    sectionRow.values = [`Peak Daily Load per Resource (${unitLabel})`, ...summaries.map(s => s.name)];
+    styleHeaderRow(sectionRow);
+    resourceNames.forEach((name, i) => {
+        const row = sheet.getRow(sectionRowIndex + 1 + i);
+        row.getCell(1).value = name;
+        summaries.forEach((summary, col) => {
+            const peak = summary.resourcePeaks.find(p => p.resource === name);
+            if (!peak) return;
+            const cell = row.getCell(col + 2);
+            cell.value = peak.peak;
+            cell.numFmt = '#,##0.##';
+            if (peak.capacity !== undefined && peak.peak > peak.capacity + 1e-9) {
+                cell.fill = OVER_CAPACITY_FILL;
+                cell.note = `Capacity ${peak.capacity} ${unitLabel}/day, peak on ${peak.peakDate}`;
+            }
+        });
+    });
+    sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 4 }];
+};
+
+export const getScenarioFileName = (base: Pick<ProjectData, 'name'>) =>
+    `${base.name.replace(/\s+/g, '_')}_Scenarios.xlsx`;
+
+/**
+ * One workbook comparing the scenarios: a summary sheet first, then a sheet of daily targets per scenario.
+ */
+export const generateScenarioWorkbook = async (base: ProjectData, scenarios: Scenario[]): Promise<{ buffer: ExcelJS.Buffer; summaries: ScenarioSummary[] }> => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+    workbook.calcProperties.fullCalcOnLoad = true;
+
+    const summaries = scenarios.map(summarizeScenario);
+    addSummarySheet(workbook, base, summaries);
+    const sheetNames = uniqueSheetNames(scenarios.map(s => s.name), [SUMMARY_SHEET]);
+    scenarios.forEach(({ name, project, changes }, i) => addDailyTargetSheet(workbook, sheetNames[i], project,
+        `${name}: ${project.startDate} to ${project.endDate}, ${project.goal.toLocaleString('en-US')} ${project.unit || 'units'}`,
+        changes.length > 0 ? `Changes from the current plan: ${changes.join('; ')}.` : 'The current plan, unchanged.'));
+
+    return { buffer: await workbook.xlsx.writeBuffer(), summaries };
+};
@@ -0,0 +1,126 @@
+import { format } from 'date-fns';
+import { DistributionConfig, ProjectData, ResourceSpec } from '../types/production';
+import { forecastProject } from './forecast';
+import { PatchResult, addResource, describeChanges, diffProjects, removeResource, updateProjectFields } from './planPatches';
+import { getDailyCapacity } from './resources';
+import { describeDistribution, scheduleResourceTargets } from './targetDistribution';
+
+// What-if variants of a plan. Each scenario is the base project with a few fields changed, built with the
+// same edit functions the agent uses so it is checked the same way.
+
+export const BASE_SCENARIO = 'Current plan';
+export const MAX_SCENARIOS = 6;
+
+export interface ScenarioSpec {
+    name: string;
+    goal?: number;
+    startDate?: string;
+    endDate?: string;
+    distribution?: DistributionConfig;
+    addResources?: ResourceSpec[];
+    removeResources?: string[];
+}
+
+export interface Scenario {
+    name: string;
+    project: ProjectData;
+    changes: string[]; // Differences from the base plan, as listed in the chat
+}
+
+export interface ResourcePeak {
+    resource: string;
+    capacity?: number; // Per working day, after efficiency
+    peak: number; // Highest daily target
+    peakDate: string | null;
+}
+
+export interface ScenarioSummary {
+    name: string;
+    changes: string[];
+    goal: number;
+    startDate: string;
+    endDate: string;
+    distribution: string;
+    resourceCount: number;
+    workingDays: number;
+    requiredDailyRate: number | null; // With actuals, what is left over the working days left; otherwise the goal over all working days
+    peakDailyTarget: number;
+    peakDate: string | null;
+    resourcePeaks: ResourcePeak[];
+}
+
+/**
+ * Applies a scenario's changes to the base plan. Fails with the first change that would leave the plan invalid.
+ */
+export const buildScenario = (base: ProjectData, spec: ScenarioSpec): { scenario: Scenario } | { error: string; details?: string[] } => {
+    if (!spec || typeof spec !== 'object') return { error: 'Every scenario must be an object with a name and its changes.' };
+    const name = String(spec.name ?? '').trim();
+    if (!name) return { error: 'Every scenario needs a name.' };
+    const notLists = (['addResources', 'removeResources'] as const).filter(key => spec[key] !== undefined && !Array.isArray(spec[key]));
+    if (notLists.length > 0) return { error: `Scenario "${name}": ${notLists.join(' and ')} must be a list.` };
+    const steps: ((project: Partial<ProjectData>) => PatchResult)[] = [
+        project => updateProjectFields(project, { goal: spec.goal, startDate: spec.startDate, endDate: spec.endDate, distribution: spec.distribution }),
+        ...(spec.removeResources || []).map(resource => (project: Partial<ProjectData>) => removeResource(project, resource)),
+        // A bare name is read as a resource with no other settings, as in the plan's own resources list
+        ...(spec.addResources || []).map(resource => (project: Partial<ProjectData>) =>
+            addResource(project, (typeof resource === 'string' ? { name: resource } : resource || {}) as ResourceSpec)),
+    ];
+
+    let project: Partial<ProjectData> = base;
+    for (const step of steps) {
+        const result = step(project);
+        if ('error' in result) return { error: `Scenario "${name}": ${result.error}`, details: result.details };
+        project = result.project;
+    }
+    return { scenario: { name, project: project as ProjectData, changes: describeChanges(diffProjects(base, project)) } };
+};
+
+const dateKey = (day: Date) => format(day, 'yyyy-MM-dd');
+
+export const summarizeScenario = (scenario: Scenario): ScenarioSummary => {
+    const { project } = scenario;
+    const schedule = scheduleResourceTargets(project);
+    const workingDays = schedule.availableWeights.filter(weight => weight > 0).length;
+    const forecast = forecastProject(project);
+
+    const peakIndex = schedule.dayTargets.reduce((best, target, i) => (target > (schedule.dayTargets[best] ?? -1) ? i : best), 0);
+    const resourcePeaks = schedule.resources.map((resource, resourceIndex) => {
+        let peak = 0;
+        let peakDate: string | null = null;
+        schedule.targets.forEach((row, dayIndex) => {
+            if (row[resourceIndex] > peak) {
+                peak = row[resourceIndex];
+                peakDate = dateKey(schedule.days[dayIndex]);
+            }
+        });
+        return { resource: resource.name, capacity: getDailyCapacity(resource), peak, peakDate };
+    });
+
+    return {
+        name: scenario.name,
+        changes: scenario.changes,
+        goal: project.goal,
+        startDate: project.startDate,
+        endDate: project.endDate,
+        distribution: describeDistribution(project.distribution),
+        resourceCount: schedule.resources.length,
+        workingDays,
+        requiredDailyRate: forecast ? forecast.requiredDailyRate : workingDays > 0 ? project.goal / workingDays : null,
+        peakDailyTarget: schedule.dayTargets[peakIndex] ?? 0,
+        peakDate: schedule.days.length > 0 ? dateKey(schedule.days[peakIndex]) : null,
+        resourcePeaks,
+    };
+};
+
+/**
+ * One line per scenario for the chat and for the model.
+ */
+export const describeScenarios = (summaries: ScenarioSummary[], unit = 'units'): string[] => {
+    const amount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+    return summaries.map(s => {
+        const overloaded = s.resourcePeaks.filter(p => p.capacity !== undefined && p.peak > p.capacity + 1e-9).map(p => p.resource);
+        return `${s.name}: ends ${s.endDate}, ${s.requiredDailyRate === null ? 'no working days left' : `${amount(s.requiredDailyRate)} ${unit}/day required`}, `
+            + `peak ${amount(s.peakDailyTarget)} ${unit} on ${s.peakDate ?? '-'}`
+            + `${overloaded.length > 0 ? `; above capacity at peak: ${overloaded.join(', ')}` : ''}.`;
+    });
+};
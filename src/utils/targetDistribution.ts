@@ -0,0 +1,123 @@
+import { differenceInCalendarDays, eachDayOfInterval } from 'date-fns';
+import { DistributionConfig, DistributionStrategy, ProjectData, WorkingCalendar } from '../types/production';
+import { toLocalDate } from './importNormalization';
+import { NormalizedResource, isWithinResourceDates, normalizeResources } from './resources';
+import { isResourceAvailable } from './workingCalendar';
+
+export const DEFAULT_DISTRIBUTION: DistributionConfig = { strategy: 'lpb' };
+
+export const DISTRIBUTION_STRATEGIES: Record<DistributionStrategy, string> = {
+    'flat': 'Flat: the same target every day.',
+    'linear': 'Linear ramp: output grows steadily from the start weight to the end weight.',
+    'lpb': 'LPB ramp: 30% to 60% of full pace over the first quarter, 60% to 100% up to the three-quarter mark, then full pace.',
+    's-curve': 'S-curve: slow start, peak pace mid-project, tapering towards the end.',
+    'front-loaded': 'Front-loaded: highest output at the start, easing off towards the end.',
+    'custom': 'Custom: relative output set per project week.',
+};
+
+const lpbWeight = (t: number): number => {
+    if (t < 0.25) return 0.3 + (0.6 - 0.3) * (t / 0.25);
+    if (t < 0.75) return 0.6 + (1.0 - 0.6) * ((t - 0.25) / 0.5);
+    return 1.0;
+};
+
+/**
+ * Relative weight of each working day. `t` runs from 0 on the first day to 1 on the last.
+ */
+export const getDayWeights = (config: DistributionConfig, days: Date[]): number[] => {
+    if (days.length === 0) return [];
+    const first = days[0];
+
+    return days.map((day, index) => {
+        const t = index / (days.length - 1 || 1);
+        switch (config.strategy) {
+            case 'flat':
+                return 1;
+            case 'linear': {
+                const from = config.startWeight ?? 0.5;
+                const to = config.endWeight ?? 1.0;
+                // Never negative, even for a config that bypassed the schema's checks: a negative weight is a negative target
+                return Math.max(0, from + (to - from) * t);
+            }
+            case 's-curve':
+                // Gaussian bell centred mid-project with a small floor: daily pace peaks halfway, cumulative output follows an S
+                return Math.exp(-Math.pow((t - 0.5) / 0.22, 2) / 2) + 0.05;
+            case 'front-loaded':
+                return 1.0 - 0.7 * t;
+            case 'custom': {
+                const weekly = config.weeklyWeights && config.weeklyWeights.length > 0 ? config.weeklyWeights : [1];
+                const week = Math.floor(differenceInCalendarDays(day, first) / 7);
+                return Math.max(0, weekly[Math.min(week, weekly.length - 1)]);
+            }
+            case 'lpb':
+            default:
+                return lpbWeight(t);
+        }
+    });
+};
+
+/**
+ * Splits the goal across the given days according to the distribution curve.
+ * The returned targets always sum to the goal.
+ */
+export const distributeTargets = (goal: number, days: Date[], config: DistributionConfig = DEFAULT_DISTRIBUTION): number[] => {
+    const weights = getDayWeights(config, days);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    if (totalWeight <= 0) return weights.map(() => goal / (weights.length || 1));
+    return weights.map(w => (w / totalWeight) * goal);
+};
+
+/**
+ * Capacity weight on each day from the resources that are on the project and not on leave.
+ */
+export const getAvailableWeights = (days: Date[], resources: NormalizedResource[], calendar?: WorkingCalendar): number[] =>
+    days.map(day => resources
+        .filter(resource => isResourceAvailable(day, resource.name, calendar) && isWithinResourceDates(day, resource))
+        .reduce((sum, resource) => sum + resource.weight, 0));
+
+/**
+ * Target for every day: the goal shaped over days with capacity, zero on the rest.
+ */
+export const getDayTargets = (goal: number, days: Date[], availableWeights: number[], config: DistributionConfig = DEFAULT_DISTRIBUTION): number[] => {
+    const workingDayIndexes = days.map((_, dayIndex) => dayIndex).filter(dayIndex => availableWeights[dayIndex] > 0);
+    const workingTargets = distributeTargets(goal, workingDayIndexes.map(dayIndex => days[dayIndex]), config);
+    const dayTargets = days.map(() => 0);
+    workingDayIndexes.forEach((dayIndex, i) => { dayTargets[dayIndex] = workingTargets[i]; });
+    return dayTargets;
+};
+
+export interface ResourceSchedule {
+    days: Date[];
+    resources: NormalizedResource[];
+    availableWeights: number[];
+    dayTargets: number[];
+    targets: number[][]; // Per day, then per resource in the order of resources
+}
+
+/**
+ * Every resource's target on every day of the project, split by available capacity as in the plan workbook.
+ */
+export const scheduleResourceTargets = (projectData: Pick<ProjectData, 'goal' | 'startDate' | 'endDate' | 'resources' | 'calendar' | 'distribution'>): ResourceSchedule => {
+    const start = toLocalDate(projectData.startDate);
+    const end = toLocalDate(projectData.endDate);
+    const days = start && end && start <= end ? eachDayOfInterval({ start, end }) : [];
+    const resources = normalizeResources(projectData.resources);
+    const availableWeights = getAvailableWeights(days, resources, projectData.calendar);
+    const dayTargets = getDayTargets(projectData.goal, days, availableWeights, projectData.distribution || DEFAULT_DISTRIBUTION);
+    const targets = days.map((day, dayIndex) => resources.map(resource =>
+        isResourceAvailable(day, resource.name, projectData.calendar) && isWithinResourceDates(day, resource)
+            ? dayTargets[dayIndex] * resource.weight / availableWeights[dayIndex]
+            : 0));
+    return { days, resources, availableWeights, dayTargets, targets };
+};
+
+export const describeDistribution = (config: DistributionConfig = DEFAULT_DISTRIBUTION): string => {
+    const base = DISTRIBUTION_STRATEGIES[config.strategy] || DISTRIBUTION_STRATEGIES.lpb;
+    if (config.strategy === 'linear') {
+        return `${base} (start ${config.startWeight ?? 0.5}, end ${config.endWeight ?? 1.0})`;
+    }
+    if (config.strategy === 'custom' && config.weeklyWeights?.length) {
+        return `${base} (weekly weights: ${config.weeklyWeights.join(', ')})`;
+    }
+    return base;
+};
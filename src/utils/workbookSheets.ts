@@ -0,0 +1,110 @@
+import ExcelJS from 'exceljs';
+import { format } from 'date-fns';
+import { ProjectData } from '../types/production';
+import { getColumnLetter, sanitizeSheetName } from './excelGenerator';
+import { toLocalDate } from './importNormalization';
+import { getDailyCapacity } from './resources';
+import { scheduleResourceTargets } from './targetDistribution';
+
+// Sheets shared by the workbooks that hold several plans at once (scenarios, portfolios), where the full
+// plan layout can't repeat because its table names must be unique in a workbook.
+
+export const OVER_CAPACITY_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFC7CE' } };
+
+export const styleHeaderRow = (row: ExcelJS.Row) => {
+    row.eachCell(cell => {
+        cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF006633' } };
+        cell.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+    });
+    row.height = 30;
+};
+
+/**
+ * Green title across row 1 and a wrapped note in row 2.
+ */
+export const addSheetTitle = (sheet: ExcelJS.Worksheet, lastCol: number, title: string, note: string) => {
+    const lastLetter = getColumnLetter(Math.max(lastCol, 2));
+    sheet.mergeCells(`A1:${lastLetter}1`);
+    const titleCell = sheet.getCell('A1');
+    titleCell.value = title;
+    titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF006633' } };
+    titleCell.font = { color: { argb: 'FFFFFFFF' }, bold: true, size: 12 };
+    titleCell.alignment = { horizontal: 'center', vertical: 'middle' };
+
+    sheet.mergeCells(`A2:${lastLetter}2`);
+    const noteCell = sheet.getCell('A2');
+    noteCell.value = note;
+    noteCell.alignment = { wrapText: true, vertical: 'top' };
+    sheet.getRow(2).height = 32;
+};
+
+/**
+ * Sheet names that are unique and within Excel's 31 characters, so "Add Team D" and "Add Team D (rush)" both survive.
+ */
+export const uniqueSheetNames = (names: string[], reserved: string[] = []): string[] => {
+    const used = new Set(reserved.map(name => name.toLowerCase()));
+    return names.map(raw => {
+        const base = sanitizeSheetName(raw).replace(/^'+|'+$/g, '') || 'Sheet';
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.substring(0, 31 - `${n}`.length - 1)} ${n}`;
+        used.add(name.toLowerCase());
+        return name;
+    });
+};
+
+/**
+ * One plan's daily targets split by resource, with the reported totals alongside once there are actuals.
+ */
+export const addDailyTargetSheet = (workbook: ExcelJS.Workbook, sheetName: string, project: ProjectData, title: string, note: string) => {
+    const sheet = workbook.addWorksheet(sheetName);
+    const schedule = scheduleResourceTargets(project);
+    const resourceCount = schedule.resources.length;
+
+    const actualsByDay = new Map<string, number>();
+    (project.actualData || []).forEach(item => {
+        const day = toLocalDate(item.date);
+        if (!day || item.actual === null || item.actual === undefined) return;
+        const key = format(day, 'yyyy-MM-dd');
+        actualsByDay.set(key, (actualsByDay.get(key) || 0) + (Number(item.actual) || 0));
+    });
+    const withActuals = actualsByDay.size > 0;
+
+    const totalCol = resourceCount + 3;
+    const headers = ['Date', 'Day', ...schedule.resources.map(r => r.name), 'Total Target', 'Cumulative Target', ...(withActuals ? ['Actual', 'Cumulative Actual'] : [])];
+    sheet.columns = headers.map((_, i) => ({ width: i === 0 ? 13 : i === 1 ? 8 : i < totalCol - 1 ? 15 : 16 }));
+    addSheetTitle(sheet, headers.length, title, note);
+
+    const header = sheet.getRow(4);
+    header.values = headers;
+    styleHeaderRow(header);
+
+    const firstResource = getColumnLetter(3);
+    const lastResource = getColumnLetter(Math.max(resourceCount + 2, 3));
+    schedule.days.forEach((day, dayIndex) => {
+        const rowIndex = 5 + dayIndex;
+        const row = sheet.getRow(rowIndex);
+        row.getCell(1).value = day;
+        row.getCell(1).numFmt = 'yyyy-mm-dd';
+        row.getCell(2).value = format(day, 'EEE');
+        schedule.resources.forEach((resource, resourceIndex) => {
+            const cell = row.getCell(resourceIndex + 3);
+            cell.value = schedule.targets[dayIndex][resourceIndex];
+            cell.numFmt = '#,##0.##';
+            if (schedule.targets[dayIndex][resourceIndex] > (getDailyCapacity(resource) ?? Infinity) + 1e-9) cell.fill = OVER_CAPACITY_FILL;
+        });
+        const [total, cumulative, actual, cumulativeActual] = [totalCol, totalCol + 1, totalCol + 2, totalCol + 3].map(getColumnLetter);
+        row.getCell(totalCol).value = { formula: `SUM(${firstResource}${rowIndex}:${lastResource}${rowIndex})` };
+        row.getCell(totalCol + 1).value = { formula: dayIndex === 0 ? `${total}${rowIndex}` : `${cumulative}${rowIndex - 1}+${total}${rowIndex}` };
+        if (withActuals) {
+            // N() so days without a report add nothing instead of breaking the running total
+            row.getCell(totalCol + 2).value = actualsByDay.get(format(day, 'yyyy-MM-dd')) ?? null;
+            row.getCell(totalCol + 3).value = { formula: dayIndex === 0 ? `N(${actual}${rowIndex})` : `${cumulativeActual}${rowIndex - 1}+N(${actual}${rowIndex})` };
+        }
+        for (let col = totalCol; col <= headers.length; col++) row.getCell(col).numFmt = '#,##0.##';
+        // Days nobody works are greyed rather than hidden, so the dates stay continuous
+        if (schedule.availableWeights[dayIndex] === 0) row.font = { color: { argb: 'FF999999' } };
+    });
+    sheet.views = [{ state: 'frozen', xSplit: 2, ySplit: 4 }];
+    return sheet;
+};
@@ -0,0 +1,85 @@
+import { format, isValid, isWithinInterval, parseISO } from 'date-fns';
+import { Holiday, WorkingCalendar } from '../types/production';
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const getHoliday = (day: Date, calendar?: WorkingCalendar): Holiday | undefined => {
+    if (!calendar?.holidays) return undefined;
+    const key = toDateKey(day);
+    return calendar.holidays.find(h => h.date === key);
+};
+
+/**
+ * Whether the whole project works on this day. Weekdays are only restricted when workingDays is given, so a
+ * calendar that only lists holidays doesn't also take out the weekends.
+ */
+export const isWorkingDay = (day: Date, calendar?: WorkingCalendar): boolean => {
+    if (!calendar) return true;
+    if (calendar.workingDays && calendar.workingDays.length > 0 && !calendar.workingDays.includes(day.getDay())) return false;
+    return !getHoliday(day, calendar);
+};
+
+export const isOnLeave = (day: Date, resource: string, calendar?: WorkingCalendar): boolean => {
+    if (!calendar?.leave) return false;
+    return calendar.leave.some(range => {
+        if (range.resource.toLowerCase() !== resource.toLowerCase()) return false;
+        const start = parseISO(range.start);
+        const end = parseISO(range.end);
+        return isValid(start) && isValid(end) && start <= end && isWithinInterval(day, { start, end });
+    });
+};
+
+export const isResourceAvailable = (day: Date, resource: string, calendar?: WorkingCalendar): boolean =>
+    isWorkingDay(day, calendar) && !isOnLeave(day, resource, calendar);
+
+/**
+ * Short label for a non-working day, e.g. "Holiday: Labor Day" or "Weekend".
+ */
+export const describeNonWorkingDay = (day: Date, calendar?: WorkingCalendar): string => {
+    const holiday = getHoliday(day, calendar);
+    if (holiday) return holiday.name ? `Holiday: ${holiday.name}` : 'Holiday';
+    return 'Non-working day';
+};
+
+const HOLIDAY_YES = ['yes', 'y', 'true', '1', 'x'];
+const HOLIDAY_NO = ['no', 'n', 'false', '0', '-'];
+
+/**
+ * Reads a Holiday cell: true for a yes-style flag, the name when it holds one, false when blank or a no-style flag.
+ */
+const readHolidayFlag = (value: unknown): string | boolean => {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value === 1;
+    const text = String(value ?? '').trim();
+    if (!text || HOLIDAY_NO.includes(text.toLowerCase())) return false;
+    return HOLIDAY_YES.includes(text.toLowerCase()) ? true : text;
+};
+
+/**
+ * Extracts holidays from tabular rows that have a date column and a "Holiday" style column. Only rows whose
+ * Holiday cell is marked count, so an actuals file with an "Is Holiday" yes/no column keeps its working days.
+ * Returns an empty list when the rows don't look like a holiday calendar.
+ */
+export const parseHolidayRows = (rows: any[]): Holiday[] => {
+    if (!rows || rows.length === 0) return [];
+    const headers = Array.from(new Set(rows.flatMap(Object.keys)));
+    const holidayHeader = headers.find(h => /holiday/i.test(h));
+    if (!holidayHeader) return [];
+    const dateHeader = headers.find(h => /date/i.test(h) && h !== holidayHeader) || (/date/i.test(holidayHeader) ? holidayHeader : undefined);
+    if (!dateHeader) return [];
+    const nameHeader = dateHeader === holidayHeader ? headers.find(h => /name|description/i.test(h)) : holidayHeader;
+
+    return rows.flatMap(row => {
+        // A separate Holiday column must mark the row: a yes-style flag or the holiday's name
+        const flag = dateHeader === holidayHeader ? true : readHolidayFlag(row[holidayHeader]);
+        if (flag === false) return [];
+        const raw = row[dateHeader];
+        const text = String(raw ?? '').trim();
+        const date = raw instanceof Date ? raw : /^\d{4}-\d{2}-\d{2}$/.test(text) ? parseISO(text) : new Date(text);
+        if (!isValid(date)) return [];
+        const name = typeof flag === 'string' ? flag : nameHeader && nameHeader !== holidayHeader && row[nameHeader]
+            ? String(row[nameHeader]).trim()
+            : undefined;
+        return [{ date: toDateKey(date), name }];
+    });
+};
@@ -7,11 +7,6 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, ".", "");
   return {
     plugins: [react(), tailwindcss()],
-    define: {
-      "import.meta.env.VITE_GEMINI_API_KEY": JSON.stringify(
-        env.VITE_GEMINI_API_KEY,
-      ),
-    },
     resolve: {
       alias: {
         "@": path.resolve(__dirname, "."),
@@ -21,6 +16,10 @@ export default defineConfig(({ mode }) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== "true",
+      // The Express server owns the Gemini key; the UI only talks to /api
+      proxy: {
+        "/api": `http://localhost:${env.API_PORT || 3001}`,
+      },
     },
   };
 });